@@ -0,0 +1,245 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { HandlerCallback, IAgentRuntime, Memory } from "@elizaos/core";
+import {
+  followUserAction,
+  likeCastAction,
+  replyToCastAction,
+  sendCastAction,
+} from "./actions";
+import { DirectHubClient } from "./hub-client";
+import { createHubApiClient } from "./hub-api-client";
+import {
+  AccountState,
+  LocalHubConfig,
+  LocalHubFarcasterService,
+} from "./service";
+import { StorageMonitor, StoreName } from "./storage-monitor";
+
+const AGENT_FID = 100;
+const HASH = `0x${"3c".repeat(20)}`;
+const MESSAGE = { content: { text: "please do it" } } as Memory;
+
+/** Services created by setup(), stopped after each test */
+const services: LocalHubFarcasterService[] = [];
+
+function account(fid: number): AccountState {
+  return {
+    fid,
+    repliedToHashes: new Map(),
+    likedHashes: new Map(),
+    recastedHashes: new Map(),
+    dailyReplies: 0,
+    dailyLikes: 0,
+    dailyRecasts: 0,
+    dailyPosts: 0,
+    lastResetDate: new Date().toDateString(),
+  };
+}
+
+/**
+ * Configured service behind a runtime whose model answers `extracted` as
+ * the fields of an XML response
+ */
+function setup(extracted: Record<string, string | number>) {
+  const response = `<response>${Object.entries(extracted)
+    .map(([key, value]) => `<${key}>${value}</${key}>`)
+    .join("")}</response>`;
+
+  let service: LocalHubFarcasterService | null = null;
+  const runtime = {
+    character: { name: "agent" },
+    getSetting: () => undefined,
+    getService: () => service,
+    composeState: async () => ({ values: {}, data: {}, text: "" }),
+    useModel: vi.fn(async () => response),
+  } as unknown as IAgentRuntime;
+
+  service = new LocalHubFarcasterService(runtime);
+  service.hubClient = { close: () => {} } as unknown as DirectHubClient;
+  service.hubApiClient = createHubApiClient("http://hub.test");
+  service.localConfig = {
+    fid: AGENT_FID,
+    dryRun: false,
+    maxDailyPosts: 5,
+    maxDailyReplies: 5,
+    maxDailyLikes: 5,
+    maxDailyRecasts: 5,
+  } as LocalHubConfig;
+  service.accounts.set(AGENT_FID, account(AGENT_FID));
+  services.push(service);
+
+  const callback = vi.fn<
+    Parameters<HandlerCallback>,
+    ReturnType<HandlerCallback>
+  >(async () => []);
+  return { runtime, service, callback, account: service.getAccount()! };
+}
+
+describe("actions", () => {
+  afterEach(async () => {
+    await Promise.all(services.splice(0).map((service) => service.stop()));
+    vi.restoreAllMocks();
+  });
+
+  it("are only available once the hub is configured", async () => {
+    const { runtime, service } = setup({});
+
+    expect(await likeCastAction.validate(runtime, MESSAGE)).toBe(true);
+
+    service.hubClient = null;
+    expect(await likeCastAction.validate(runtime, MESSAGE)).toBe(false);
+  });
+
+  describe("storage limits", () => {
+    /**
+     * Report `full` stores at the pause level and the rest at throttle
+     */
+    function storage(service: LocalHubFarcasterService, full: StoreName[]) {
+      service.storageMonitor = {
+        quotaScale: (_fid: number, store: StoreName) =>
+          full.includes(store) ? 0 : 0.5,
+      } as unknown as StorageMonitor;
+    }
+
+    it("halves the daily quota of a nearly full store", async () => {
+      const { runtime, service, account } = setup({ fid: 3, hash: HASH });
+      storage(service, []);
+      account.dailyLikes = 2;
+      const likeCast = vi.spyOn(service, "likeCast");
+
+      const result = await likeCastAction.handler(runtime, MESSAGE);
+
+      expect(service.remainingQuota("like")).toBe(0);
+      expect(result).toMatchObject({ success: false });
+      expect(likeCast).not.toHaveBeenCalled();
+    });
+
+    it("won't follow anyone while the links store is full", async () => {
+      const { runtime, service } = setup({ fid: 7 });
+      storage(service, ["links"]);
+      const followUser = vi.spyOn(service, "followUser");
+
+      const result = await followUserAction.handler(runtime, MESSAGE);
+
+      expect(result).toMatchObject({
+        success: false,
+        text: "Farcaster follow storage is full, not following anyone new",
+      });
+      expect(followUser).not.toHaveBeenCalled();
+      expect(runtime.useModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("SEND_CAST", () => {
+    it("publishes the extracted text and counts the post", async () => {
+      const { runtime, service, callback, account } = setup({ text: "gm" });
+      const publishCast = vi
+        .spyOn(service, "publishCast")
+        .mockResolvedValue(true);
+
+      const result = await sendCastAction.handler(
+        runtime,
+        MESSAGE,
+        undefined,
+        {},
+        callback
+      );
+
+      expect(publishCast).toHaveBeenCalledWith("gm");
+      expect(result).toMatchObject({ success: true, data: { text: "gm" } });
+      expect(callback).toHaveBeenCalledWith({
+        text: 'Posted to Farcaster: "gm"',
+        actions: ["SEND_CAST"],
+      });
+      expect(account.dailyPosts).toBe(1);
+    });
+
+    it("refuses once the daily post limit is used", async () => {
+      const { runtime, service, account } = setup({ text: "gm" });
+      account.dailyPosts = 5;
+      const publishCast = vi.spyOn(service, "publishCast");
+
+      const result = await sendCastAction.handler(runtime, MESSAGE);
+
+      expect(result).toMatchObject({ success: false });
+      expect(publishCast).not.toHaveBeenCalled();
+      expect(runtime.useModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("REPLY_TO_CAST", () => {
+    it("replies to the extracted cast once", async () => {
+      const { runtime, service, account } = setup({
+        fid: 3,
+        hash: HASH,
+        text: "great thread!",
+      });
+      const replyToCast = vi
+        .spyOn(service, "replyToCast")
+        .mockResolvedValue(true);
+
+      await replyToCastAction.handler(runtime, MESSAGE);
+      const again = await replyToCastAction.handler(runtime, MESSAGE);
+
+      expect(replyToCast).toHaveBeenCalledTimes(1);
+      expect(replyToCast).toHaveBeenCalledWith(3, HASH, "great thread!");
+      expect(account.repliedToHashes.has(HASH)).toBe(true);
+      expect(again).toMatchObject({
+        success: false,
+        text: "I've already replied to that cast",
+      });
+    });
+
+    it("asks for the target when the hash isn't a cast hash", async () => {
+      const { runtime, service } = setup({ fid: 3, hash: "0x12", text: "hi" });
+      const replyToCast = vi.spyOn(service, "replyToCast");
+
+      const result = await replyToCastAction.handler(runtime, MESSAGE);
+
+      expect(result).toMatchObject({ success: false });
+      expect(replyToCast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("LIKE_CAST", () => {
+    it("treats an already liked cast as done", async () => {
+      const { runtime, service, account } = setup({ fid: 3, hash: HASH });
+      account.likedHashes.set(HASH, Date.now());
+      const likeCast = vi.spyOn(service, "likeCast");
+
+      const result = await likeCastAction.handler(runtime, MESSAGE);
+
+      expect(result).toMatchObject({ success: true });
+      expect(likeCast).not.toHaveBeenCalled();
+      expect(account.dailyLikes).toBe(0);
+    });
+  });
+
+  describe("FOLLOW_USER", () => {
+    it("resolves a username and follows it", async () => {
+      const { runtime, service } = setup({ username: "alice" });
+      vi.spyOn(service.hubApiClient!, "getFidByUsername").mockResolvedValue(7);
+      const followUser = vi
+        .spyOn(service, "followUser")
+        .mockResolvedValue(true);
+
+      const result = await followUserAction.handler(runtime, MESSAGE);
+
+      expect(followUser).toHaveBeenCalledWith(7);
+      expect(result).toMatchObject({
+        success: true,
+        text: "Followed @alice on Farcaster",
+      });
+    });
+
+    it("won't follow the agent itself", async () => {
+      const { runtime, service } = setup({ fid: AGENT_FID });
+      const followUser = vi.spyOn(service, "followUser");
+
+      const result = await followUserAction.handler(runtime, MESSAGE);
+
+      expect(result).toMatchObject({ text: "I can't follow myself" });
+      expect(followUser).not.toHaveBeenCalled();
+    });
+  });
+});
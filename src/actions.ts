@@ -0,0 +1,617 @@
+/**
+ * Farcaster Actions
+ *
+ * Lets the agent cast, reply, quote, like, recast and follow on Farcaster when
+ * asked to from any conversation. All actions go through the agent's
+ * LocalHubFarcasterService, so they share its dry-run mode and daily quotas.
+ */
+
+import {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+  ModelType,
+  State,
+  TemplateType,
+  composePromptFromState,
+  parseKeyValueXml,
+} from "@elizaos/core";
+import { LocalHubFarcasterService } from "./service";
+import {
+  castTargetTemplate,
+  followTargetTemplate,
+  sendCastTemplate,
+} from "./templates";
+
+const CAST_HASH_PATTERN = /^0x[0-9a-f]{40}$/i;
+
+interface CastTarget {
+  fid: number;
+  hash: string;
+  text: string;
+}
+
+/**
+ * Run an extraction template over the conversation and parse the XML result
+ */
+async function extractFromConversation<T>(
+  runtime: IAgentRuntime,
+  message: Memory,
+  state: State | undefined,
+  template: TemplateType
+): Promise<T | null> {
+  const currentState = state ?? (await runtime.composeState(message));
+
+  const prompt = composePromptFromState({
+    state: {
+      ...currentState,
+      values: {
+        ...currentState.values,
+        agentName: runtime.character.name,
+      },
+    },
+    template,
+  });
+
+  const response = await runtime.useModel(ModelType.TEXT_SMALL, { prompt });
+  return parseKeyValueXml<T>(response);
+}
+
+async function extractCastTarget(
+  runtime: IAgentRuntime,
+  message: Memory,
+  state: State | undefined
+): Promise<CastTarget | null> {
+  const parsed = await extractFromConversation<{
+    fid?: string | number;
+    hash?: string;
+    text?: string;
+  }>(
+    runtime,
+    message,
+    state,
+    runtime.character.templates?.castTargetTemplate ?? castTargetTemplate
+  );
+
+  const fid = parseInt(String(parsed?.fid ?? ""));
+  const hash = String(parsed?.hash ?? "").trim();
+  if (!fid || !CAST_HASH_PATTERN.test(hash)) return null;
+
+  return { fid, hash, text: String(parsed?.text ?? "").trim() };
+}
+
+/**
+ * Report an action outcome to the conversation and build its result
+ */
+async function actionResult(
+  actionName: string,
+  success: boolean,
+  text: string,
+  callback?: HandlerCallback,
+  data?: Record<string, unknown>
+): Promise<ActionResult> {
+  if (callback) {
+    await callback({ text, actions: [actionName] });
+  }
+  return success ? { success, text, data } : { success, text, error: text };
+}
+
+function getFarcasterService(
+  runtime: IAgentRuntime
+): LocalHubFarcasterService | null {
+  return runtime.getService<LocalHubFarcasterService>(
+    LocalHubFarcasterService.serviceType
+  );
+}
+
+/**
+ * Shared validation: actions are only available once the hub is configured
+ */
+async function validateHubConfigured(
+  runtime: IAgentRuntime
+): Promise<boolean> {
+  const service = getFarcasterService(runtime);
+  return !!service?.hubClient && !!service.localConfig;
+}
+
+export const sendCastAction: Action = {
+  name: "SEND_CAST",
+  similes: ["POST_CAST", "CAST", "POST_TO_FARCASTER", "SHARE_ON_FARCASTER"],
+  description:
+    "Publish a new cast to Farcaster from the agent's account. Use when asked to post something on Farcaster.",
+  validate: validateHubConfigured,
+  handler: async (runtime, message, state, _options, callback) => {
+    const service = getFarcasterService(runtime);
+    const localConfig = service?.localConfig;
+    const account = service?.getAccount();
+    if (!service || !localConfig || !account) {
+      return actionResult(
+        "SEND_CAST",
+        false,
+        "Farcaster is not configured",
+        callback
+      );
+    }
+
+    service.resetDailyCountersIfNeeded();
+    if (service.remainingQuota("post") === 0) {
+      return actionResult(
+        "SEND_CAST",
+        false,
+        "Daily Farcaster post limit reached, try again tomorrow",
+        callback
+      );
+    }
+
+    const parsed = await extractFromConversation<{ text?: string }>(
+      runtime,
+      message,
+      state,
+      runtime.character.templates?.sendCastTemplate ?? sendCastTemplate
+    );
+    const text = parsed?.text?.trim();
+    if (!text) {
+      return actionResult(
+        "SEND_CAST",
+        false,
+        "Could not work out what to post",
+        callback
+      );
+    }
+
+    if (!(await service.publishCast(text))) {
+      return actionResult(
+        "SEND_CAST",
+        false,
+        "Failed to publish cast",
+        callback
+      );
+    }
+
+    service.recordPost();
+    return actionResult(
+      "SEND_CAST",
+      true,
+      `Posted to Farcaster: "${text}"`,
+      callback,
+      { text, dryRun: localConfig.dryRun }
+    );
+  },
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: { text: "Can you post 'gm frens' on Farcaster?" },
+      },
+      {
+        name: "{{name2}}",
+        content: { text: "Posting that now", actions: ["SEND_CAST"] },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: { text: "Share your thoughts on the launch with Farcaster" },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "I'll cast about it",
+          actions: ["SEND_CAST"],
+        },
+      },
+    ],
+  ],
+};
+
+export const replyToCastAction: Action = {
+  name: "REPLY_TO_CAST",
+  similes: ["REPLY_CAST", "FARCASTER_REPLY", "RESPOND_TO_CAST"],
+  description:
+    "Reply to a specific Farcaster cast, identified by its author FID and hash.",
+  validate: validateHubConfigured,
+  handler: async (runtime, message, state, _options, callback) => {
+    const service = getFarcasterService(runtime);
+    const localConfig = service?.localConfig;
+    const account = service?.getAccount();
+    if (!service || !localConfig || !account) {
+      return actionResult(
+        "REPLY_TO_CAST",
+        false,
+        "Farcaster is not configured",
+        callback
+      );
+    }
+
+    service.resetDailyCountersIfNeeded();
+    if (service.remainingQuota("reply") === 0) {
+      return actionResult(
+        "REPLY_TO_CAST",
+        false,
+        "Daily Farcaster reply limit reached, try again tomorrow",
+        callback
+      );
+    }
+
+    const target = await extractCastTarget(runtime, message, state);
+    if (!target || !target.text) {
+      return actionResult(
+        "REPLY_TO_CAST",
+        false,
+        "I need the cast's author FID, its hash and what to say",
+        callback
+      );
+    }
+
+    if (account.repliedToHashes.has(target.hash)) {
+      return actionResult(
+        "REPLY_TO_CAST",
+        false,
+        "I've already replied to that cast",
+        callback
+      );
+    }
+
+    if (!(await service.replyToCast(target.fid, target.hash, target.text))) {
+      return actionResult(
+        "REPLY_TO_CAST",
+        false,
+        "Failed to publish reply",
+        callback
+      );
+    }
+
+    service.recordReply(target.hash);
+    return actionResult(
+      "REPLY_TO_CAST",
+      true,
+      `Replied on Farcaster: "${target.text}"`,
+      callback,
+      { ...target, dryRun: localConfig.dryRun }
+    );
+  },
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Reply 'great thread!' to cast 0x3c5d8f1e2a4b6c7d8e9f0a1b2c3d4e5f6a7b8c9d by fid 3",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: { text: "Replying now", actions: ["REPLY_TO_CAST"] },
+      },
+    ],
+  ],
+};
+
+export const quoteCastAction: Action = {
+  name: "QUOTE_CAST",
+  similes: ["QUOTE_RECAST", "FARCASTER_QUOTE", "QUOTE_TWEET"],
+  description:
+    "Publish a new cast quoting a specific Farcaster cast, identified by its author FID and hash.",
+  validate: validateHubConfigured,
+  handler: async (runtime, message, state, _options, callback) => {
+    const service = getFarcasterService(runtime);
+    const localConfig = service?.localConfig;
+    const account = service?.getAccount();
+    if (!service || !localConfig || !account) {
+      return actionResult(
+        "QUOTE_CAST",
+        false,
+        "Farcaster is not configured",
+        callback
+      );
+    }
+
+    service.resetDailyCountersIfNeeded();
+    if (service.remainingQuota("post") === 0) {
+      return actionResult(
+        "QUOTE_CAST",
+        false,
+        "Daily Farcaster post limit reached, try again tomorrow",
+        callback
+      );
+    }
+
+    const target = await extractCastTarget(runtime, message, state);
+    if (!target || !target.text) {
+      return actionResult(
+        "QUOTE_CAST",
+        false,
+        "I need the cast's author FID, its hash and what to say",
+        callback
+      );
+    }
+
+    if (!(await service.quoteCast(target.fid, target.hash, target.text))) {
+      return actionResult(
+        "QUOTE_CAST",
+        false,
+        "Failed to publish quote cast",
+        callback
+      );
+    }
+
+    service.recordPost();
+    return actionResult(
+      "QUOTE_CAST",
+      true,
+      `Quoted the cast on Farcaster: "${target.text}"`,
+      callback,
+      { ...target, dryRun: localConfig.dryRun }
+    );
+  },
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Quote cast 0x3c5d8f1e2a4b6c7d8e9f0a1b2c3d4e5f6a7b8c9d by fid 3 and say this is the best explanation of hubs so far",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: { text: "Quoting it", actions: ["QUOTE_CAST"] },
+      },
+    ],
+  ],
+};
+
+export const likeCastAction: Action = {
+  name: "LIKE_CAST",
+  similes: ["FARCASTER_LIKE", "REACT_TO_CAST"],
+  description:
+    "Like a specific Farcaster cast, identified by its author FID and hash.",
+  validate: validateHubConfigured,
+  handler: async (runtime, message, state, _options, callback) => {
+    const service = getFarcasterService(runtime);
+    const localConfig = service?.localConfig;
+    const account = service?.getAccount();
+    if (!service || !localConfig || !account) {
+      return actionResult(
+        "LIKE_CAST",
+        false,
+        "Farcaster is not configured",
+        callback
+      );
+    }
+
+    service.resetDailyCountersIfNeeded();
+    if (service.remainingQuota("like") === 0) {
+      return actionResult(
+        "LIKE_CAST",
+        false,
+        "Daily Farcaster like limit reached, try again tomorrow",
+        callback
+      );
+    }
+
+    const target = await extractCastTarget(runtime, message, state);
+    if (!target) {
+      return actionResult(
+        "LIKE_CAST",
+        false,
+        "I need the cast's author FID and hash to like it",
+        callback
+      );
+    }
+
+    if (account.likedHashes.has(target.hash)) {
+      return actionResult(
+        "LIKE_CAST",
+        true,
+        "Already liked that cast",
+        callback
+      );
+    }
+
+    if (!(await service.likeCast(target.fid, target.hash))) {
+      return actionResult("LIKE_CAST", false, "Failed to like cast", callback);
+    }
+
+    service.recordLike(target.hash);
+    return actionResult(
+      "LIKE_CAST",
+      true,
+      "Liked the cast on Farcaster",
+      callback,
+      { fid: target.fid, hash: target.hash, dryRun: localConfig.dryRun }
+    );
+  },
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Like cast 0x3c5d8f1e2a4b6c7d8e9f0a1b2c3d4e5f6a7b8c9d from fid 3",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: { text: "Done", actions: ["LIKE_CAST"] },
+      },
+    ],
+  ],
+};
+
+export const recastAction: Action = {
+  name: "RECAST",
+  similes: ["RECAST_CAST", "FARCASTER_RECAST", "SHARE_CAST"],
+  description:
+    "Recast a specific Farcaster cast, identified by its author FID and hash.",
+  validate: validateHubConfigured,
+  handler: async (runtime, message, state, _options, callback) => {
+    const service = getFarcasterService(runtime);
+    const localConfig = service?.localConfig;
+    const account = service?.getAccount();
+    if (!service || !localConfig || !account) {
+      return actionResult(
+        "RECAST",
+        false,
+        "Farcaster is not configured",
+        callback
+      );
+    }
+
+    service.resetDailyCountersIfNeeded();
+    if (service.remainingQuota("recast") === 0) {
+      return actionResult(
+        "RECAST",
+        false,
+        "Daily Farcaster recast limit reached, try again tomorrow",
+        callback
+      );
+    }
+
+    const target = await extractCastTarget(runtime, message, state);
+    if (!target) {
+      return actionResult(
+        "RECAST",
+        false,
+        "I need the cast's author FID and hash to recast it",
+        callback
+      );
+    }
+
+    if (account.recastedHashes.has(target.hash)) {
+      return actionResult(
+        "RECAST",
+        true,
+        "Already recasted that cast",
+        callback
+      );
+    }
+
+    if (!(await service.recastCast(target.fid, target.hash))) {
+      return actionResult("RECAST", false, "Failed to recast", callback);
+    }
+    service.recordRecast(target.hash);
+
+    return actionResult(
+      "RECAST",
+      true,
+      "Recasted on Farcaster",
+      callback,
+      { fid: target.fid, hash: target.hash, dryRun: localConfig.dryRun }
+    );
+  },
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Recast 0x3c5d8f1e2a4b6c7d8e9f0a1b2c3d4e5f6a7b8c9d by fid 3 please",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: { text: "Recasting it", actions: ["RECAST"] },
+      },
+    ],
+  ],
+};
+
+export const followUserAction: Action = {
+  name: "FOLLOW_USER",
+  similes: ["FARCASTER_FOLLOW", "FOLLOW"],
+  description: "Follow a Farcaster user by FID or username.",
+  validate: validateHubConfigured,
+  handler: async (runtime, message, state, _options, callback) => {
+    const service = getFarcasterService(runtime);
+    const localConfig = service?.localConfig;
+    if (!service || !localConfig || !service.hubApiClient) {
+      return actionResult(
+        "FOLLOW_USER",
+        false,
+        "Farcaster is not configured",
+        callback
+      );
+    }
+
+    // The hub would prune the oldest follows to make room
+    if (!service.canWriteTo("links")) {
+      return actionResult(
+        "FOLLOW_USER",
+        false,
+        "Farcaster follow storage is full, not following anyone new",
+        callback
+      );
+    }
+
+    const parsed = await extractFromConversation<{
+      fid?: string | number;
+      username?: string;
+    }>(
+      runtime,
+      message,
+      state,
+      runtime.character.templates?.followTargetTemplate ?? followTargetTemplate
+    );
+
+    let targetFid = parseInt(String(parsed?.fid ?? "")) || null;
+    const username = String(parsed?.username ?? "").trim();
+    if (!targetFid && username) {
+      targetFid = await service.hubApiClient.getFidByUsername(username);
+    }
+
+    if (!targetFid) {
+      return actionResult(
+        "FOLLOW_USER",
+        false,
+        "I couldn't find that Farcaster user",
+        callback
+      );
+    }
+
+    if (targetFid === localConfig.fid) {
+      return actionResult(
+        "FOLLOW_USER",
+        false,
+        "I can't follow myself",
+        callback
+      );
+    }
+
+    if (!(await service.followUser(targetFid))) {
+      return actionResult(
+        "FOLLOW_USER",
+        false,
+        "Failed to follow user",
+        callback
+      );
+    }
+
+    return actionResult(
+      "FOLLOW_USER",
+      true,
+      `Followed ${username ? `@${username}` : `FID ${targetFid}`} on Farcaster`,
+      callback,
+      { fid: targetFid, dryRun: localConfig.dryRun }
+    );
+  },
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: { text: "Follow @dwr on Farcaster" },
+      },
+      {
+        name: "{{name2}}",
+        content: { text: "Following them", actions: ["FOLLOW_USER"] },
+      },
+    ],
+  ],
+};
+
+export const farcasterActions: Action[] = [
+  sendCastAction,
+  replyToCastAction,
+  quoteCastAction,
+  likeCastAction,
+  recastAction,
+  followUserAction,
+];
@@ -0,0 +1,21 @@
+/**
+ * Retry Backoff
+ *
+ * Shared by the hub HTTP layer and the gRPC client, so retries against a
+ * hub back off the same way whichever protocol they use.
+ */
+
+/**
+ * Exponential backoff with jitter: baseDelay doubled per attempt (from 0),
+ * capped at maxDelay, then randomized down to half
+ *
+ * The jitter keeps agents that failed together from retrying in lockstep.
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number
+): number {
+  const delay = Math.min(baseDelay * 2 ** attempt, maxDelay);
+  return delay / 2 + Math.random() * (delay / 2);
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_CAST_BYTES,
+  MAX_CAST_MENTIONS,
+  THREAD_SUFFIX_BYTES,
+  composeCastText,
+  renderCastText,
+  splitCastText,
+  threadPartSuffix,
+  utf8ByteLength,
+} from "./cast-text";
+
+const FIDS: Record<string, number> = { alice: 1, bob: 2, "carol.eth": 3 };
+
+async function resolveFid(username: string): Promise<number | null> {
+  return FIDS[username] ?? null;
+}
+
+const USERNAMES = new Map([
+  [1, "alice"],
+  [2, "bob"],
+  [3, "carol.eth"],
+]);
+
+describe("composeCastText", () => {
+  it("strips mentions and records their byte positions", async () => {
+    const composed = await composeCastText("hey @alice, thoughts?", resolveFid);
+
+    expect(composed).toEqual({
+      text: "hey , thoughts?",
+      mentions: [1],
+      mentionsPositions: [4],
+      unresolved: [],
+    });
+  });
+
+  it("counts positions in UTF-8 bytes, not UTF-16 units", async () => {
+    // é is 2 bytes, ☕ 3 bytes and 🎉 4 bytes (2 UTF-16 units)
+    const composed = await composeCastText(
+      "café ☕ @alice 🎉 and @bob",
+      resolveFid
+    );
+
+    expect(composed.text).toBe("café ☕  🎉 and ");
+    expect(composed.mentions).toEqual([1, 2]);
+    expect(composed.mentionsPositions).toEqual([10, 20]);
+  });
+
+  it("leaves unknown usernames and email addresses as text", async () => {
+    const composed = await composeCastText(
+      "ask @nobody or mail me@alice.com",
+      resolveFid
+    );
+
+    expect(composed.text).toBe("ask @nobody or mail me@alice.com");
+    expect(composed.mentions).toEqual([]);
+    expect(composed.unresolved).toEqual(["nobody"]);
+  });
+
+  it("resolves .eth names case-insensitively", async () => {
+    const composed = await composeCastText("gm @Carol.ETH", resolveFid);
+
+    expect(composed.text).toBe("gm ");
+    expect(composed.mentions).toEqual([3]);
+  });
+
+  it("keeps mentions over the protocol limit as text", async () => {
+    const text = Array.from(
+      { length: MAX_CAST_MENTIONS + 1 },
+      () => "@alice"
+    ).join(" ");
+    const composed = await composeCastText(text, resolveFid);
+
+    expect(composed.mentions).toHaveLength(MAX_CAST_MENTIONS);
+    expect(composed.text.endsWith("@alice")).toBe(true);
+    expect(composed.unresolved).toEqual(["alice"]);
+  });
+
+  it("throws when the text is over the byte limit", async () => {
+    // 161 characters but 322 bytes
+    await expect(composeCastText("é".repeat(161), resolveFid)).rejects.toThrow(
+      "322 bytes"
+    );
+  });
+
+  it("measures the limit after mentions are removed", async () => {
+    const text = `@alice ${"a".repeat(MAX_CAST_BYTES - 1)}`;
+    const composed = await composeCastText(text, resolveFid);
+
+    expect(utf8ByteLength(composed.text)).toBe(MAX_CAST_BYTES);
+  });
+});
+
+describe("renderCastText", () => {
+  it("puts usernames back at their byte positions", () => {
+    const rendered = renderCastText(
+      { text: "café ☕  🎉 and ", mentions: [1, 2], mentionsPositions: [10, 20] },
+      USERNAMES
+    );
+
+    expect(rendered).toBe("café ☕ @alice 🎉 and @bob");
+  });
+
+  it("round-trips composed text", async () => {
+    const original = "日本語 @alice, über @carol.eth 👋🏽 @bob";
+    const composed = await composeCastText(original, resolveFid);
+
+    expect(renderCastText(composed, USERNAMES)).toBe(original);
+  });
+
+  it("inserts mentions in position order", () => {
+    const rendered = renderCastText(
+      { text: "ü and ü", mentions: [2, 1], mentionsPositions: [9, 0] },
+      USERNAMES
+    );
+
+    expect(rendered).toBe("@aliceü and ü@bob");
+  });
+
+  it("falls back to @fid:N for unknown users", () => {
+    const rendered = renderCastText(
+      { text: "hi ", mentions: [42], mentionsPositions: [3] },
+      USERNAMES
+    );
+
+    expect(rendered).toBe("hi @fid:42");
+  });
+
+  it("clamps positions past the end of the text", () => {
+    const rendered = renderCastText(
+      { text: "ñ", mentions: [1], mentionsPositions: [99] },
+      USERNAMES
+    );
+
+    expect(rendered).toBe("ñ@alice");
+  });
+});
+
+describe("splitCastText", () => {
+  it("returns short text as a single trimmed part", () => {
+    expect(splitCastText("  gm  ")).toEqual(["gm"]);
+    expect(splitCastText("   ")).toEqual([]);
+  });
+
+  it("packs whole sentences into parts", () => {
+    const sentence = `Start ${"word ".repeat(18)}end.`;
+    const parts = splitCastText(Array(5).fill(sentence).join(" "), 250);
+
+    expect(parts).toHaveLength(3);
+    for (const part of parts) {
+      expect(utf8ByteLength(part)).toBeLessThanOrEqual(250);
+      expect(part.endsWith("end.")).toBe(true);
+    }
+  });
+
+  it("splits on bytes, not characters, for multi-byte text", () => {
+    const sentence = `${"日本語 ".repeat(20)}です。`;
+    const parts = splitCastText(Array(3).fill(sentence).join(" "), 200);
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(utf8ByteLength(part)).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it("splits words longer than a part between characters", () => {
+    const parts = splitCastText("🎉".repeat(100), MAX_CAST_BYTES);
+
+    expect(parts).toEqual(["🎉".repeat(80), "🎉".repeat(20)]);
+  });
+
+  it("keeps every word", () => {
+    const words = Array.from({ length: 300 }, (_, i) => `w${i}`);
+    const parts = splitCastText(words.join(" "), 100);
+
+    expect(parts.join(" ").split(" ")).toEqual(words);
+  });
+});
+
+describe("thread numbering", () => {
+  it("formats the suffix one-based", () => {
+    expect(threadPartSuffix(0, 3)).toBe(" (1/3)");
+    expect(threadPartSuffix(11, 12)).toBe(" (12/12)");
+  });
+
+  it("reserves room for the longest suffix", () => {
+    expect(THREAD_SUFFIX_BYTES).toBe(utf8ByteLength(" (99/99)"));
+  });
+
+  it("keeps numbered parts within the cast limit", () => {
+    const text = "ü".repeat(40).concat(". ").repeat(150);
+    const parts = splitCastText(text, MAX_CAST_BYTES - THREAD_SUFFIX_BYTES);
+
+    expect(parts.length).toBeGreaterThan(9);
+    parts.forEach((part, i) => {
+      const numbered = part + threadPartSuffix(i, parts.length);
+      expect(utf8ByteLength(numbered)).toBeLessThanOrEqual(MAX_CAST_BYTES);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Cast Text and Mentions
+ *
+ * On Farcaster, mentions are not part of the cast text. A cast that reads
+ * "hey @alice, thoughts?" is stored as text "hey , thoughts?" with
+ * mentions [aliceFid] and mentionsPositions [4], where positions are UTF-8
+ * byte offsets into the stored text.
+ *
+ * composeCastText() turns agent-written text into that form, and
+ * renderCastText() puts usernames back for display and prompts.
+ * splitCastText() breaks text that is over the cast limit into thread parts.
+ */
+
+/**
+ * Maximum size of a cast's text in UTF-8 bytes (protocol limit)
+ */
+export const MAX_CAST_BYTES = 320;
+
+/**
+ * Maximum number of mentions in one cast (protocol limit)
+ */
+export const MAX_CAST_MENTIONS = 10;
+
+/**
+ * @username tokens: fnames (lowercase letters, digits, dashes, up to 16
+ * characters) and .eth names. Not preceded by a word character, so email
+ * addresses don't match.
+ */
+const MENTION_PATTERN = /(?<![\w@])@([a-z0-9][a-z0-9-]{0,15}(?:\.eth)?)(?![\w-])/gi;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function utf8ByteLength(text: string): number {
+  return encoder.encode(text).length;
+}
+
+export interface ComposedCast {
+  /** Text with resolved mentions removed */
+  text: string;
+  mentions: number[];
+  /** UTF-8 byte offsets into `text`, ascending */
+  mentionsPositions: number[];
+  /** Usernames that could not be resolved and were left in the text */
+  unresolved: string[];
+}
+
+/**
+ * Resolve @username tokens to FIDs and strip them from the text
+ *
+ * Tokens that don't resolve (or exceed the mention limit) stay as plain
+ * text. Throws if the resulting text is over maxBytes.
+ */
+export async function composeCastText(
+  text: string,
+  resolveFid: (username: string) => Promise<number | null>,
+  maxBytes: number = MAX_CAST_BYTES
+): Promise<ComposedCast> {
+  const resolved = new Map<string, number | null>();
+  const unresolved: string[] = [];
+  const mentions: number[] = [];
+  const mentionsPositions: number[] = [];
+
+  let output = "";
+  let outputBytes = 0;
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const username = match[1].toLowerCase();
+
+    if (!resolved.has(username)) {
+      resolved.set(username, await resolveFid(username));
+    }
+    const fid = resolved.get(username);
+
+    if (!fid || mentions.length >= MAX_CAST_MENTIONS) {
+      if (!unresolved.includes(username)) unresolved.push(username);
+      continue;
+    }
+
+    const before = text.slice(lastIndex, match.index);
+    output += before;
+    outputBytes += utf8ByteLength(before);
+
+    mentions.push(fid);
+    mentionsPositions.push(outputBytes);
+    lastIndex = match.index! + match[0].length;
+  }
+
+  output += text.slice(lastIndex);
+
+  const bytes = utf8ByteLength(output);
+  if (bytes > maxBytes) {
+    throw new Error(
+      `Cast text is ${bytes} bytes, over the ${maxBytes} byte limit`
+    );
+  }
+
+  return { text: output, mentions, mentionsPositions, unresolved };
+}
+
+/**
+ * Re-insert @usernames into stored cast text at their byte positions
+ *
+ * Mentions whose username is unknown are rendered as @fid:<fid>.
+ */
+export function renderCastText(
+  cast: { text: string; mentions: number[]; mentionsPositions: number[] },
+  usernames: Map<number, string>
+): string {
+  if (cast.mentions.length === 0) return cast.text;
+
+  const bytes = encoder.encode(cast.text);
+  const order = cast.mentions
+    .map((fid, i) => ({ fid, position: cast.mentionsPositions[i] ?? 0 }))
+    .sort((a, b) => a.position - b.position);
+
+  let output = "";
+  let offset = 0;
+
+  for (const { fid, position } of order) {
+    const clamped = Math.min(Math.max(position, offset), bytes.length);
+    output += decoder.decode(bytes.subarray(offset, clamped));
+    output += `@${usernames.get(fid) || `fid:${fid}`}`;
+    offset = clamped;
+  }
+
+  return output + decoder.decode(bytes.subarray(offset));
+}
+
+// ============================================================================
+// THREAD SPLITTING
+// ============================================================================
+
+/**
+ * Numbering suffix appended to thread parts, e.g. " (2/5)"
+ */
+export function threadPartSuffix(index: number, total: number): string {
+  return ` (${index + 1}/${total})`;
+}
+
+/**
+ * Bytes to leave free in each part for threadPartSuffix() (up to 99 parts)
+ */
+export const THREAD_SUFFIX_BYTES = utf8ByteLength(threadPartSuffix(98, 99));
+
+/**
+ * Split text into pieces no longer than maxBytes, preferring word
+ * boundaries and falling back to single characters for very long words
+ */
+function splitOversized(text: string, maxBytes: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/(?<=\s)/)) {
+    if (utf8ByteLength(current + word) <= maxBytes) {
+      current += word;
+      continue;
+    }
+    if (current) pieces.push(current);
+    current = "";
+
+    if (utf8ByteLength(word) <= maxBytes) {
+      current = word;
+      continue;
+    }
+    for (const char of word) {
+      if (utf8ByteLength(current + char) > maxBytes) {
+        pieces.push(current);
+        current = "";
+      }
+      current += char;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Split long text into cast-sized parts on sentence boundaries
+ *
+ * Sentences are packed greedily into parts of at most maxBytes (UTF-8).
+ * Sentences that don't fit in a part on their own are split on words.
+ */
+export function splitCastText(
+  text: string,
+  maxBytes: number = MAX_CAST_BYTES
+): string[] {
+  const trimmed = text.trim();
+  if (utf8ByteLength(trimmed) <= maxBytes) return trimmed ? [trimmed] : [];
+
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "sentence" });
+  const sentences: string[] = [];
+  for (const { segment } of segmenter.segment(trimmed)) {
+    if (utf8ByteLength(segment.trim()) <= maxBytes) {
+      sentences.push(segment);
+    } else {
+      sentences.push(...splitOversized(segment, maxBytes));
+    }
+  }
+
+  const parts: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    if (utf8ByteLength((current + sentence).trim()) <= maxBytes) {
+      current += sentence;
+    } else {
+      if (current.trim()) parts.push(current.trim());
+      current = sentence;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+}
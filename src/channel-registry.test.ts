@@ -0,0 +1,180 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ChannelRegistry } from "./channel-registry";
+import { HubNetworkError } from "./errors";
+import { CastWithAuthor, createHubApiClient } from "./hub-api-client";
+
+/**
+ * Registry over a hub that has one cast (at timestamp 500) under each of
+ * `activeUrls`
+ */
+function registry(activeUrls: string[]) {
+  const hubApiClient = createHubApiClient("http://hub.test");
+  const getChannelCastsPage = vi
+    .spyOn(hubApiClient.strict(), "getChannelCastsPage")
+    .mockImplementation(async (url) => ({
+      items: activeUrls.includes(url)
+        ? [{ timestamp: 500 } as CastWithAuthor]
+        : [],
+      nextPageToken: null,
+    }));
+
+  return {
+    channels: new ChannelRegistry(hubApiClient, 60000),
+    getChannelCastsPage,
+  };
+}
+
+describe("ChannelRegistry", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("register", () => {
+    it("maps ids to Warpcast parent URLs", () => {
+      const { channels } = registry([]);
+
+      expect(channels.register("/Dev").parentUrl).toBe(
+        "https://warpcast.com/~/channel/dev"
+      );
+    });
+
+    it("knows channels with legacy parent URLs", () => {
+      const { channels } = registry([]);
+
+      expect(channels.register("base").parentUrl).toBe(
+        "https://onchainsummer.xyz"
+      );
+      expect(channels.register("https://ethereum.org").id).toBe("ethereum");
+    });
+
+    it("finds channels by id or parent URL", () => {
+      const { channels } = registry([]);
+      const info = channels.register({
+        id: "art",
+        url: "https://example.com/art",
+        name: "Art",
+      });
+
+      expect(channels.get("/art")).toBe(info);
+      expect(channels.findByUrl("https://example.com/art")).toBe(info);
+    });
+
+    it("fills in metadata and moves the URL on re-registration", () => {
+      const { channels } = registry([]);
+      channels.register("dev");
+
+      const info = channels.register({
+        id: "dev",
+        url: "https://example.com/dev",
+        description: "Builders",
+      });
+
+      expect(info).toMatchObject({
+        parentUrl: "https://example.com/dev",
+        description: "Builders",
+        valid: null,
+      });
+      expect(channels.findByUrl("https://warpcast.com/~/channel/dev")).toBe(
+        undefined
+      );
+      expect(channels.list()).toHaveLength(1);
+    });
+  });
+
+  describe("loadFile", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "channel-registry-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("reads a JSON list of ids and entries", async () => {
+      const file = join(dir, "channels.json");
+      await writeFile(
+        file,
+        JSON.stringify(["dev", { id: "art", name: "Art" }, { name: "no id" }])
+      );
+      const { channels } = registry([]);
+
+      expect(await channels.loadFile(file)).toBe(2);
+      expect(channels.get("art")?.name).toBe("Art");
+    });
+
+    it("reads a YAML map of id to URL or entry", async () => {
+      const file = join(dir, "channels.yaml");
+      await writeFile(
+        file,
+        [
+          "music: https://example.com/music",
+          "art:",
+          "  name: Art",
+          "  description: Pictures",
+        ].join("\n")
+      );
+      const { channels } = registry([]);
+
+      expect(await channels.loadFile(file)).toBe(2);
+      expect(channels.get("music")?.parentUrl).toBe(
+        "https://example.com/music"
+      );
+      expect(channels.get("art")?.description).toBe("Pictures");
+    });
+  });
+
+  describe("resolve", () => {
+    it("validates a channel against the hub and caches the result", async () => {
+      const { channels, getChannelCastsPage } = registry([
+        "https://warpcast.com/~/channel/dev",
+      ]);
+
+      const info = await channels.resolve("dev");
+      await channels.resolve("dev");
+
+      expect(info).toMatchObject({ valid: true, lastCastAt: 500 });
+      expect(getChannelCastsPage).toHaveBeenCalledTimes(1);
+    });
+
+    it("leaves channels without casts out of describe", async () => {
+      const { channels } = registry(["https://warpcast.com/~/channel/dev"]);
+      channels.register({ id: "dev", name: "Developers" });
+      channels.register("typo");
+
+      await channels.validateAll();
+
+      expect(channels.get("typo")?.valid).toBe(false);
+      expect(channels.describe()).toBe("- /dev (Developers)");
+    });
+
+    it("keeps the previous result when the hub is down", async () => {
+      const { channels, getChannelCastsPage } = registry([
+        "https://warpcast.com/~/channel/dev",
+      ]);
+      const info = await channels.resolve("dev");
+      info.checkedAt! -= 60001;
+      getChannelCastsPage.mockRejectedValueOnce(
+        new HubNetworkError("castsByParent", new TypeError("fetch failed"))
+      );
+
+      await channels.resolve("dev");
+
+      expect(info.valid).toBe(true);
+      expect(getChannelCastsPage).toHaveBeenCalledTimes(2);
+
+      // Checked again on the next resolve
+      await channels.resolve("dev");
+      expect(getChannelCastsPage).toHaveBeenCalledTimes(3);
+    });
+  });
+});
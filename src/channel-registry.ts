@@ -0,0 +1,272 @@
+/**
+ * Channel Registry
+ *
+ * Farcaster channels are just parent URLs on the hub, and the hub has no
+ * channel metadata API. The registry maps what users configure (a channel
+ * id like "dev", a full parent URL, or entries from a local JSON/YAML file)
+ * to parent URLs, and checks each one against the hub: a channel counts as
+ * valid once `castsByParent` returns at least one cast for its URL.
+ *
+ * Results are cached, so casts' parentUrl can be mapped back to a channel
+ * and the agent can refer to channels by their proper name.
+ */
+
+import { readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import { HubApiClient, HubCast } from "./hub-api-client";
+import { HubError } from "./errors";
+
+const logger = {
+  info: (...args: unknown[]) => console.log("[ChannelRegistry]", ...args),
+  error: (...args: unknown[]) => console.error("[ChannelRegistry]", ...args),
+  warn: (...args: unknown[]) => console.warn("[ChannelRegistry]", ...args),
+};
+
+/**
+ * Parent URL pattern used by channels created through Warpcast
+ */
+const WARPCAST_CHANNEL_PREFIX = "https://warpcast.com/~/channel/";
+
+/**
+ * Older channels that predate the Warpcast URL pattern
+ */
+const LEGACY_CHANNEL_URLS: Record<string, string> = {
+  farcaster:
+    "chain://eip155:7777777/erc721:0x4f86113fc3e9783cf3ec9a552cbb566716a57628",
+  ethereum: "https://ethereum.org",
+  base: "https://onchainsummer.xyz",
+};
+
+/**
+ * How long a validation result is trusted before re-checking the hub (ms)
+ */
+const DEFAULT_VALIDATION_TTL = 24 * 60 * 60 * 1000;
+
+export interface ChannelEntry {
+  /** Short channel id, e.g. "dev" */
+  id?: string;
+  /** Parent URL casts in the channel point to */
+  url?: string;
+  name?: string;
+  description?: string;
+}
+
+export interface ChannelInfo {
+  id: string;
+  parentUrl: string;
+  name: string;
+  description: string;
+  /** Whether the hub has casts under parentUrl, null if not checked yet */
+  valid: boolean | null;
+  /** Farcaster timestamp of the newest cast seen during validation */
+  lastCastAt: number | null;
+  checkedAt: number | null;
+}
+
+function isUrl(value: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(value);
+}
+
+/**
+ * Derive a short id from a parent URL
+ */
+function idFromUrl(url: string): string {
+  if (url.startsWith(WARPCAST_CHANNEL_PREFIX)) {
+    return url.slice(WARPCAST_CHANNEL_PREFIX.length);
+  }
+  const legacy = Object.entries(LEGACY_CHANNEL_URLS).find(
+    ([, legacyUrl]) => legacyUrl === url
+  );
+  return legacy ? legacy[0] : url;
+}
+
+export class ChannelRegistry {
+  private channels: Map<string, ChannelInfo> = new Map();
+  private byUrl: Map<string, ChannelInfo> = new Map();
+
+  constructor(
+    private hubApiClient: HubApiClient,
+    private validationTtl: number = DEFAULT_VALIDATION_TTL
+  ) {}
+
+  /**
+   * Add a channel without validating it
+   *
+   * Accepts a channel id, a parent URL or a full entry. Metadata from a
+   * later registration fills in fields the earlier one left out.
+   */
+  register(entry: string | ChannelEntry): ChannelInfo {
+    const normalized: ChannelEntry =
+      typeof entry === "string"
+        ? isUrl(entry)
+          ? { url: entry }
+          : { id: entry.replace(/^\//, "").toLowerCase() }
+        : entry;
+
+    const id = normalized.id || (normalized.url && idFromUrl(normalized.url));
+    if (!id) {
+      throw new Error("Channel entry needs an id or a url");
+    }
+
+    const existing = this.channels.get(id);
+    if (existing) {
+      existing.name = normalized.name || existing.name;
+      existing.description = normalized.description || existing.description;
+      if (normalized.url && normalized.url !== existing.parentUrl) {
+        this.byUrl.delete(existing.parentUrl);
+        existing.parentUrl = normalized.url;
+        existing.valid = null;
+        existing.checkedAt = null;
+        this.byUrl.set(existing.parentUrl, existing);
+      }
+      return existing;
+    }
+
+    const info: ChannelInfo = {
+      id,
+      parentUrl:
+        normalized.url ||
+        LEGACY_CHANNEL_URLS[id] ||
+        `${WARPCAST_CHANNEL_PREFIX}${id}`,
+      name: normalized.name || id,
+      description: normalized.description || "",
+      valid: null,
+      lastCastAt: null,
+      checkedAt: null,
+    };
+
+    this.channels.set(id, info);
+    this.byUrl.set(info.parentUrl, info);
+    return info;
+  }
+
+  /**
+   * Register channels from a JSON or YAML file
+   *
+   * The file holds either a list of entries (strings or objects) or a map of
+   * id -> url / entry. Returns the number of channels registered.
+   */
+  async loadFile(filePath: string): Promise<number> {
+    const raw = await readFile(filePath, "utf8");
+    const data: unknown = /\.ya?ml$/i.test(filePath)
+      ? parseYaml(raw)
+      : JSON.parse(raw);
+
+    const entries: Array<string | ChannelEntry> = Array.isArray(data)
+      ? data
+      : Object.entries((data ?? {}) as Record<string, unknown>).map(
+          ([id, value]) =>
+            typeof value === "string"
+              ? { id, url: value }
+              : { id, ...(value as ChannelEntry) }
+        );
+
+    let count = 0;
+    for (const entry of entries) {
+      try {
+        this.register(entry);
+        count++;
+      } catch (error) {
+        logger.warn(`Skipping channel entry in ${filePath}:`, String(error));
+      }
+    }
+
+    logger.info(`Loaded ${count} channels from ${filePath}`);
+    return count;
+  }
+
+  /**
+   * Look up a registered channel by id or parent URL
+   */
+  get(idOrUrl: string): ChannelInfo | undefined {
+    return (
+      this.byUrl.get(idOrUrl) ||
+      this.channels.get(idOrUrl.replace(/^\//, "").toLowerCase()) ||
+      this.channels.get(idOrUrl)
+    );
+  }
+
+  /**
+   * Map a cast's parentUrl back to a channel, if it is a known one
+   */
+  findByUrl(parentUrl: string): ChannelInfo | undefined {
+    return this.byUrl.get(parentUrl);
+  }
+
+  list(): ChannelInfo[] {
+    return [...this.channels.values()];
+  }
+
+  /**
+   * Register (if needed) and validate a channel, using the cached result
+   * while it is fresh
+   */
+  async resolve(idOrUrl: string): Promise<ChannelInfo> {
+    const info = this.get(idOrUrl) ?? this.register(idOrUrl);
+
+    if (
+      info.checkedAt === null ||
+      Date.now() - info.checkedAt > this.validationTtl
+    ) {
+      await this.validate(info);
+    }
+
+    return info;
+  }
+
+  /**
+   * Validate every registered channel
+   */
+  async validateAll(): Promise<ChannelInfo[]> {
+    for (const info of this.channels.values()) {
+      await this.validate(info);
+    }
+    return this.list();
+  }
+
+  /**
+   * Check a channel against the hub
+   *
+   * A hub failure says nothing about the channel, so the previous result
+   * is kept and the next resolve() checks again.
+   */
+  private async validate(info: ChannelInfo): Promise<void> {
+    let items: HubCast[];
+    try {
+      ({ items } = await this.hubApiClient
+        .strict()
+        .getChannelCastsPage(info.parentUrl, { pageSize: 1 }));
+    } catch (error) {
+      if (!(error instanceof HubError)) throw error;
+      logger.warn(
+        `Could not validate channel "${info.id}", hub unavailable:`,
+        error.message
+      );
+      return;
+    }
+
+    info.valid = items.length > 0;
+    info.lastCastAt = items[0]?.timestamp ?? null;
+    info.checkedAt = Date.now();
+
+    if (!info.valid) {
+      logger.warn(
+        `No casts found for channel "${info.id}" at ${info.parentUrl} - check the id or set its parent URL`
+      );
+    }
+  }
+
+  /**
+   * Channel list formatted for the agent's context
+   */
+  describe(): string {
+    return this.list()
+      .filter((info) => info.valid !== false)
+      .map((info) => {
+        const name = info.name !== info.id ? ` (${info.name})` : "";
+        const description = info.description ? `: ${info.description}` : "";
+        return `- /${info.id}${name}${description}`;
+      })
+      .join("\n");
+  }
+}
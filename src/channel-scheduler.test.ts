@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { ChannelScheduler, ChannelVisit } from "./channel-scheduler";
+
+function visitsByChannel(visits: ChannelVisit[]): Map<string, ChannelVisit> {
+  return new Map(visits.map((visit) => [visit.channel, visit]));
+}
+
+describe("ChannelScheduler", () => {
+  describe("plan", () => {
+    it("visits every channel once per cycle", () => {
+      const scheduler = new ChannelScheduler(["dev", "art", "music"]);
+
+      const channels = scheduler.plan(30).map((visit) => visit.channel);
+
+      expect(channels.sort()).toEqual(["art", "dev", "music"]);
+    });
+
+    it("fetches a few casts from a channel without a cursor", () => {
+      const scheduler = new ChannelScheduler(["dev"]);
+
+      const [visit] = scheduler.plan(30);
+
+      expect(visit.sinceTimestamp).toBeUndefined();
+      expect(visit.fetchLimit).toBe(10);
+    });
+
+    it("fetches only casts since the cursor once visited", () => {
+      const scheduler = new ChannelScheduler(["dev"]);
+      scheduler.recordVisit("dev", 5, 1000);
+
+      const [visit] = scheduler.plan(30);
+
+      expect(visit.sinceTimestamp).toBe(1000);
+      expect(visit.fetchLimit).toBe(50);
+    });
+
+    it("gives busier channels a bigger share of likes", () => {
+      const scheduler = new ChannelScheduler(["busy", "quiet"]);
+      scheduler.recordVisit("busy", 20, 1000);
+      scheduler.recordVisit("quiet", 0, null);
+
+      const visits = visitsByChannel(scheduler.plan(10));
+
+      expect(visits.get("busy")!.likeAllowance).toBeGreaterThan(
+        visits.get("quiet")!.likeAllowance
+      );
+    });
+
+    it("gives every channel at least one like", () => {
+      const scheduler = new ChannelScheduler(["dev", "art", "music"]);
+
+      for (const visit of scheduler.plan(0)) {
+        expect(visit.likeAllowance).toBe(1);
+      }
+    });
+
+    it("takes today's likes off the allowance until the daily reset", () => {
+      const scheduler = new ChannelScheduler(["dev"]);
+      scheduler.recordLike("dev");
+      scheduler.recordLike("dev");
+
+      expect(scheduler.plan(3)[0].likeAllowance).toBe(1);
+      scheduler.recordLike("dev");
+      scheduler.recordLike("dev");
+      expect(scheduler.plan(3)[0].likeAllowance).toBe(0);
+
+      scheduler.resetDaily();
+      expect(scheduler.plan(3)[0].likeAllowance).toBe(3);
+    });
+  });
+
+  describe("cursors", () => {
+    it("only moves a cursor forward", () => {
+      const scheduler = new ChannelScheduler(["dev"]);
+      scheduler.recordVisit("dev", 3, 2000);
+      scheduler.recordVisit("dev", 0, 1500);
+      scheduler.recordVisit("dev", 0, null);
+
+      expect(scheduler.getStats().dev.cursor).toBe(2000);
+    });
+
+    it("round-trips through exportCursors and restoreCursors", () => {
+      const before = new ChannelScheduler(["dev", "art"]);
+      before.recordVisit("dev", 3, 2000);
+
+      const cursors = before.exportCursors();
+      expect(cursors).toEqual({ "channel:dev": 2000 });
+
+      const after = new ChannelScheduler(["dev", "art"]);
+      after.restoreCursors(cursors);
+      const visits = visitsByChannel(after.plan(10));
+
+      expect(visits.get("dev")!.sinceTimestamp).toBe(2000);
+      expect(visits.get("art")!.sinceTimestamp).toBeUndefined();
+    });
+
+    it("ignores cursors of other kinds and unconfigured channels", () => {
+      const scheduler = new ChannelScheduler(["dev"]);
+
+      scheduler.restoreCursors({ mentionStream: 42, "channel:gone": 7 });
+
+      expect(scheduler.exportCursors()).toEqual({});
+      expect(scheduler.has("gone")).toBe(false);
+    });
+  });
+});
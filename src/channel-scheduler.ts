@@ -0,0 +1,182 @@
+/**
+ * Channel Scan Scheduling
+ *
+ * Keeps per-channel bookkeeping for the interaction loop so every configured
+ * channel is visited each cycle:
+ * - a cursor (newest cast timestamp seen) so only new casts are fetched
+ * - an activity estimate (new casts per visit) used to weight channels
+ * - a share of the daily like budget, proportional to activity, so one busy
+ *   channel can't use up all the likes
+ */
+
+/**
+ * Smoothing factor for the per-visit activity average
+ */
+const ACTIVITY_ALPHA = 0.3;
+
+/**
+ * Casts fetched from a channel we have no cursor for yet
+ */
+const INITIAL_FETCH_LIMIT = 10;
+
+/**
+ * Upper bound on new casts fetched from one channel per visit
+ */
+const MAX_FETCH_LIMIT = 50;
+
+/**
+ * Prefix of channel cursor keys in PersistedState.cursors
+ */
+const CURSOR_PREFIX = "channel:";
+
+interface ChannelState {
+  /** Newest Farcaster timestamp seen, null before the first visit */
+  cursor: number | null;
+  /** Moving average of new casts per visit */
+  activity: number;
+  /** Likes spent in this channel today */
+  likesToday: number;
+}
+
+export interface ChannelVisit {
+  channel: string;
+  /** Only casts at or after this Farcaster timestamp are new */
+  sinceTimestamp?: number;
+  fetchLimit: number;
+  /** Likes this channel may still spend today */
+  likeAllowance: number;
+}
+
+export class ChannelScheduler {
+  private channels: Map<string, ChannelState> = new Map();
+
+  constructor(channels: string[]) {
+    for (const channel of channels) {
+      this.channels.set(channel, {
+        cursor: null,
+        activity: 1,
+        likesToday: 0,
+      });
+    }
+  }
+
+  /**
+   * Restore cursors saved with exportCursors()
+   */
+  restoreCursors(cursors: Record<string, number>): void {
+    for (const [key, value] of Object.entries(cursors)) {
+      if (!key.startsWith(CURSOR_PREFIX)) continue;
+      const state = this.channels.get(key.slice(CURSOR_PREFIX.length));
+      if (state) state.cursor = value;
+    }
+  }
+
+  /**
+   * Cursors to merge into PersistedState.cursors
+   */
+  exportCursors(): Record<string, number> {
+    const cursors: Record<string, number> = {};
+    for (const [channel, state] of this.channels) {
+      if (state.cursor !== null) {
+        cursors[CURSOR_PREFIX + channel] = state.cursor;
+      }
+    }
+    return cursors;
+  }
+
+  has(channel: string): boolean {
+    return this.channels.has(channel);
+  }
+
+  resetDaily(): void {
+    for (const state of this.channels.values()) {
+      state.likesToday = 0;
+    }
+  }
+
+  /**
+   * Plan one cycle: every channel, in random order, with its like allowance
+   *
+   * Each channel's daily share of `dailyLikeBudget` is proportional to its
+   * activity, with at least one like per channel.
+   */
+  plan(dailyLikeBudget: number): ChannelVisit[] {
+    const weights = new Map<string, number>();
+    let totalWeight = 0;
+    for (const [channel, state] of this.channels) {
+      // Floor so quiet channels still get a share
+      const weight = state.activity + 1;
+      weights.set(channel, weight);
+      totalWeight += weight;
+    }
+
+    const visits: ChannelVisit[] = [];
+    for (const [channel, state] of this.channels) {
+      const share = Math.max(
+        1,
+        Math.round((dailyLikeBudget * weights.get(channel)!) / totalWeight)
+      );
+
+      visits.push({
+        channel,
+        sinceTimestamp: state.cursor ?? undefined,
+        fetchLimit:
+          state.cursor === null ? INITIAL_FETCH_LIMIT : MAX_FETCH_LIMIT,
+        likeAllowance: Math.max(0, share - state.likesToday),
+      });
+    }
+
+    // Shuffle so no channel is always scanned first
+    for (let i = visits.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [visits[i], visits[j]] = [visits[j], visits[i]];
+    }
+
+    return visits;
+  }
+
+  /**
+   * Record the outcome of a visit
+   *
+   * @param newCasts casts newer than the previous cursor
+   * @param newestTimestamp newest timestamp fetched, if any
+   */
+  recordVisit(
+    channel: string,
+    newCasts: number,
+    newestTimestamp: number | null
+  ): void {
+    const state = this.channels.get(channel);
+    if (!state) return;
+
+    state.activity =
+      ACTIVITY_ALPHA * newCasts + (1 - ACTIVITY_ALPHA) * state.activity;
+    if (newestTimestamp !== null && newestTimestamp > (state.cursor ?? 0)) {
+      state.cursor = newestTimestamp;
+    }
+  }
+
+  recordLike(channel: string): void {
+    const state = this.channels.get(channel);
+    if (state) state.likesToday++;
+  }
+
+  /**
+   * Per-channel stats, for status reporting
+   */
+  getStats(): Record<
+    string,
+    { cursor: number | null; activity: number; likesToday: number }
+  > {
+    return Object.fromEntries(
+      [...this.channels].map(([channel, state]) => [
+        channel,
+        {
+          cursor: state.cursor,
+          activity: Math.round(state.activity * 10) / 10,
+          likesToday: state.likesToday,
+        },
+      ])
+    );
+  }
+}
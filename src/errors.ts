@@ -0,0 +1,83 @@
+/**
+ * Hub Errors
+ *
+ * Failures reading from the hub HTTP API, by cause:
+ * - HubNetworkError: the hub couldn't be reached (connection refused, DNS,
+ *   reset)
+ * - HubHttpError: the hub answered with a non-2xx status
+ * - HubNotFoundError: the hub answered 404 (a HubHttpError)
+ * - HubResponseError: the body didn't match the expected model
+ *
+ * HubApiClient only throws these from its strict() view; the default client
+ * logs them and returns empty results.
+ */
+
+/**
+ * Base class for hub read failures
+ */
+export class HubError extends Error {
+  constructor(
+    readonly endpoint: string,
+    message: string,
+    /** True when trying again later may succeed */
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "HubError";
+  }
+}
+
+/**
+ * The hub couldn't be reached
+ */
+export class HubNetworkError extends HubError {
+  constructor(endpoint: string, readonly cause: unknown) {
+    super(endpoint, `${endpoint} request failed: ${String(cause)}`, true);
+    this.name = "HubNetworkError";
+  }
+}
+
+/**
+ * The hub answered with a non-2xx status
+ */
+export class HubHttpError extends HubError {
+  constructor(
+    endpoint: string,
+    readonly status: number
+  ) {
+    super(
+      endpoint,
+      `${endpoint} failed with HTTP ${status}`,
+      status === 429 || status >= 500
+    );
+    this.name = "HubHttpError";
+  }
+}
+
+/**
+ * The requested cast, user or name doesn't exist on the hub
+ */
+export class HubNotFoundError extends HubHttpError {
+  constructor(endpoint: string) {
+    super(endpoint, 404);
+    this.name = "HubNotFoundError";
+  }
+}
+
+/**
+ * A hub response that doesn't match the expected shape
+ */
+export class HubResponseError extends HubError {
+  constructor(
+    endpoint: string,
+    /** One entry per invalid field, e.g. "data.fid: expected number" */
+    readonly issues: string[]
+  ) {
+    super(
+      endpoint,
+      `Unexpected ${endpoint} response: ${issues.join("; ")}`,
+      false
+    );
+    this.name = "HubResponseError";
+  }
+}
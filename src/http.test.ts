@@ -0,0 +1,183 @@
+import { describe, expect, it, vi } from "vitest";
+import { FetchFunction, HttpClient, HttpClientOptions } from "./http";
+
+const URL = "http://hub.test/v1/info";
+
+/**
+ * Fake fetch answering with the given statuses (or errors) in order
+ */
+function fakeFetch(...results: Array<number | Error>) {
+  return vi.fn<Parameters<FetchFunction>, ReturnType<FetchFunction>>(
+    async () => {
+      const next = results.shift() ?? 200;
+      if (next instanceof Error) throw next;
+      return new Response(null, { status: next });
+    }
+  );
+}
+
+/**
+ * Fake fetch that never answers, only rejects when its signal aborts
+ */
+function hangingFetch() {
+  return vi.fn<Parameters<FetchFunction>, ReturnType<FetchFunction>>(
+    (_input, init) =>
+      new Promise((_resolve, reject) => {
+        const signal = init?.signal;
+        if (signal?.aborted) return reject(signal.reason);
+        signal?.addEventListener("abort", () => reject(signal.reason));
+      })
+  );
+}
+
+function client(fetch: FetchFunction, options: HttpClientOptions = {}) {
+  return new HttpClient({
+    fetch,
+    retryBaseDelay: 1,
+    retryMaxDelay: 5,
+    requestsPerSecond: 0,
+    ...options,
+  });
+}
+
+describe("HttpClient", () => {
+  describe("retries", () => {
+    it("retries 5xx and 429 until a success", async () => {
+      const fetch = fakeFetch(503, 429, 200);
+      const response = await client(fetch).get(URL);
+
+      expect(response.status).toBe(200);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("returns the last response once retries are used up", async () => {
+      const fetch = fakeFetch(500, 500, 500, 200);
+      const response = await client(fetch, { maxRetries: 2 }).get(URL);
+
+      expect(response.status).toBe(500);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("doesn't retry other statuses", async () => {
+      const fetch = fakeFetch(404);
+      const response = await client(fetch).get(URL);
+
+      expect(response.status).toBe(404);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries network errors, then throws the last one", async () => {
+      const fetch = fakeFetch(
+        new TypeError("fetch failed"),
+        new TypeError("fetch failed"),
+        new TypeError("still failing")
+      );
+
+      await expect(client(fetch, { maxRetries: 2 }).get(URL)).rejects.toThrow(
+        "still failing"
+      );
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("waits at least Retry-After", async () => {
+      const responses = [
+        new Response(null, { status: 429, headers: { "retry-after": "0.05" } }),
+        new Response(null, { status: 200 }),
+      ];
+      const fetch = vi.fn(async () => responses.shift()!);
+
+      const started = Date.now();
+      await client(fetch, { retryMaxDelay: 1000 }).get(URL);
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("timeouts", () => {
+    it("fails a hanging request with a TimeoutError and doesn't retry", async () => {
+      const fetch = hangingFetch();
+
+      await expect(client(fetch, { timeout: 20 }).get(URL)).rejects.toMatchObject(
+        { name: "TimeoutError" }
+      );
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("cancellation", () => {
+    it("rejects requests in flight when the signal aborts", async () => {
+      const controller = new AbortController();
+      const fetch = hangingFetch();
+      const request = client(fetch, { signal: controller.signal }).get(URL);
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+
+      controller.abort(new Error("stopped"));
+
+      await expect(request).rejects.toThrow("stopped");
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects requests waiting for a slot without fetching them", async () => {
+      const controller = new AbortController();
+      const fetch = hangingFetch();
+      const http = client(fetch, { signal: controller.signal, maxInFlight: 1 });
+
+      const requests = Promise.allSettled([http.get(URL), http.get(URL)]);
+      await vi.waitFor(() => expect(http.getStats().waiting).toBe(1));
+
+      controller.abort(new Error("stopped"));
+
+      for (const result of await requests) {
+        expect(result).toMatchObject({
+          status: "rejected",
+          reason: new Error("stopped"),
+        });
+      }
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects immediately once aborted", async () => {
+      const controller = new AbortController();
+      controller.abort(new Error("stopped"));
+      const fetch = fakeFetch(200);
+
+      await expect(
+        client(fetch, { signal: controller.signal }).get(URL)
+      ).rejects.toThrow("stopped");
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("limits", () => {
+    it("keeps at most maxInFlight requests in flight", async () => {
+      let inFlight = 0;
+      let peak = 0;
+      const fetch = vi.fn(async () => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return new Response(null, { status: 200 });
+      });
+      const http = client(fetch, { maxInFlight: 2 });
+
+      await Promise.all(Array.from({ length: 6 }, () => http.get(URL)));
+
+      expect(peak).toBe(2);
+      expect(fetch).toHaveBeenCalledTimes(6);
+      expect(http.getStats()).toMatchObject({ inFlight: 0, waiting: 0 });
+    });
+
+    it("spaces requests out once the burst is spent", async () => {
+      const fetch = fakeFetch();
+      const http = client(fetch, { requestsPerSecond: 50, burst: 1 });
+
+      const started = Date.now();
+      await Promise.all(Array.from({ length: 3 }, () => http.get(URL)));
+
+      // One from the burst, then one every 20ms
+      expect(Date.now() - started).toBeGreaterThanOrEqual(35);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+});
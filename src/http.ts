@@ -0,0 +1,280 @@
+/**
+ * Hub HTTP Layer
+ *
+ * Every hub HTTP request goes through one HttpClient, which adds:
+ * - a timeout per request, so a hung hub can't stall a loop forever
+ * - cancellation of everything in flight or queued through an AbortSignal
+ *   (the service aborts it on stop)
+ * - a cap on requests in flight and a token-bucket rate limit
+ * - retries with exponential backoff and jitter on network errors, 429
+ *   (honoring Retry-After) and 5xx
+ *
+ * `fetch` is injectable, so tests can substitute a fake.
+ */
+
+import { backoffDelay } from "./backoff";
+
+const logger = {
+  info: (...args: unknown[]) => console.log("[HubHttp]", ...args),
+  error: (...args: unknown[]) => console.error("[HubHttp]", ...args),
+  warn: (...args: unknown[]) => console.warn("[HubHttp]", ...args),
+};
+
+export type FetchFunction = (
+  input: string,
+  init?: { signal?: AbortSignal }
+) => Promise<Response>;
+
+export interface HttpClientOptions {
+  /** fetch implementation (default: global fetch) */
+  fetch?: FetchFunction;
+  /** Per-attempt timeout in ms (default 10s) */
+  timeout?: number;
+  /** Max requests in flight; more wait in line (default 8) */
+  maxInFlight?: number;
+  /** Sustained requests per second, 0 for no limit (default 20) */
+  requestsPerSecond?: number;
+  /** Requests allowed in a burst above the sustained rate (default 40) */
+  burst?: number;
+  /** Retries on network errors, 429 and 5xx (default 2) */
+  maxRetries?: number;
+  /** First retry delay in ms, doubled per attempt (default 500ms) */
+  retryBaseDelay?: number;
+  /** Upper bound for a retry delay in ms (default 10s) */
+  retryMaxDelay?: number;
+  /** Aborting it cancels requests in flight and in line */
+  signal?: AbortSignal;
+}
+
+/**
+ * Statuses worth retrying after a delay
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Retry-After header in ms (seconds or HTTP date), null if absent or invalid
+ */
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get("retry-after");
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error("Request aborted");
+}
+
+/**
+ * setTimeout as a promise that rejects when `signal` aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export class HttpClient {
+  private readonly fetchFn: FetchFunction;
+  private readonly timeout: number;
+  private readonly maxInFlight: number;
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelay: number;
+  private readonly retryMaxDelay: number;
+  private readonly signal?: AbortSignal;
+
+  // Concurrency: requests in flight and callers waiting for a slot
+  private inFlight = 0;
+  private waiting: Array<() => void> = [];
+
+  // Token bucket
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(options: HttpClientOptions = {}) {
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeout = options.timeout ?? 10000;
+    this.maxInFlight = Math.max(1, options.maxInFlight ?? 8);
+    this.requestsPerSecond = options.requestsPerSecond ?? 20;
+    this.burst = Math.max(1, options.burst ?? 40);
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryBaseDelay = options.retryBaseDelay ?? 500;
+    this.retryMaxDelay = options.retryMaxDelay ?? 10000;
+    this.signal = options.signal;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * GET a URL
+   *
+   * Resolves with the response, including non-2xx ones once retries are
+   * used up. Rejects on network errors, timeouts and cancellation.
+   */
+  async get(url: string): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.attempt(url);
+      } catch (error) {
+        if (this.signal?.aborted || attempt >= this.maxRetries) throw error;
+        if (error instanceof Error && error.name === "TimeoutError") {
+          // The hub is hanging; retrying would only stack up the wait
+          throw error;
+        }
+        await this.backoff(url, attempt, String(error));
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= this.maxRetries) {
+        return response;
+      }
+
+      // Let the connection go before waiting
+      await response.body?.cancel().catch(() => undefined);
+      await this.backoff(
+        url,
+        attempt,
+        `HTTP ${response.status}`,
+        retryAfterMs(response)
+      );
+    }
+  }
+
+  /**
+   * Requests in flight, requests waiting for a slot and tokens left
+   */
+  getStats(): { inFlight: number; waiting: number; tokens: number } {
+    this.refill();
+    return {
+      inFlight: this.inFlight,
+      waiting: this.waiting.length,
+      tokens: Math.floor(this.tokens),
+    };
+  }
+
+  /**
+   * One request: wait for a slot and a token, then fetch with a timeout
+   */
+  private async attempt(url: string): Promise<Response> {
+    await this.acquireSlot();
+    try {
+      await this.takeToken();
+
+      const timeoutSignal = AbortSignal.timeout(this.timeout);
+      const signal = this.signal
+        ? AbortSignal.any([this.signal, timeoutSignal])
+        : timeoutSignal;
+
+      try {
+        return await this.fetchFn(url, { signal });
+      } catch (error) {
+        if (timeoutSignal.aborted && !this.signal?.aborted) {
+          const timeout = new Error(
+            `Request timed out after ${this.timeout}ms`
+          );
+          timeout.name = "TimeoutError";
+          throw timeout;
+        }
+        throw error;
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private async backoff(
+    url: string,
+    attempt: number,
+    reason: string,
+    minimum: number | null = null
+  ): Promise<void> {
+    const wait = Math.min(
+      Math.max(
+        backoffDelay(attempt, this.retryBaseDelay, this.retryMaxDelay),
+        minimum ?? 0
+      ),
+      this.retryMaxDelay
+    );
+
+    logger.warn(
+      `${new URL(url).pathname} failed (${reason}), retrying in ${Math.round(wait)}ms`
+    );
+    await sleep(wait, this.signal);
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.signal?.aborted) throw abortError(this.signal);
+    if (this.inFlight < this.maxInFlight) {
+      this.inFlight++;
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((entry) => entry !== grant);
+        reject(abortError(this.signal!));
+      };
+      // The releasing request hands its slot over, inFlight stays the same
+      const grant = () => {
+        this.signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      this.waiting.push(grant);
+      this.signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.inFlight--;
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + ((now - this.refilledAt) / 1000) * this.requestsPerSecond
+    );
+    this.refilledAt = now;
+  }
+
+  private async takeToken(): Promise<void> {
+    if (this.requestsPerSecond <= 0) return;
+
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+      await sleep(
+        ((1 - this.tokens) / this.requestsPerSecond) * 1000,
+        this.signal
+      );
+    }
+  }
+}
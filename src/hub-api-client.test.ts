@@ -0,0 +1,453 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  HubHttpError,
+  HubNetworkError,
+  HubNotFoundError,
+  HubResponseError,
+} from "./errors";
+import { CastWithAuthor, createHubApiClient } from "./hub-api-client";
+import { HttpClient } from "./http";
+
+const HUB = "http://hub.test";
+
+/**
+ * Cast message as the hub serves it, by FID `n` at timestamp n * 10
+ */
+function castMessage(n: number) {
+  return {
+    hash: `0x${n.toString(16).padStart(4, "0")}`,
+    data: {
+      type: "MESSAGE_TYPE_CAST_ADD",
+      fid: n,
+      timestamp: n * 10,
+      castAddBody: { text: `cast ${n}` },
+    },
+  };
+}
+
+/**
+ * Client for a hub serving `pages` of mentions (newest first), chained by
+ * page tokens
+ */
+function hubServing(pages: number[][]) {
+  const fetch = vi.fn(async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+    if (url.pathname !== "/v1/castsByMention") {
+      return Response.json({ messages: [] });
+    }
+
+    const index = Number(url.searchParams.get("pageToken") ?? 0);
+    return Response.json({
+      messages: (pages[index] ?? []).map(castMessage),
+      nextPageToken: index + 1 < pages.length ? String(index + 1) : "",
+    });
+  });
+  const client = createHubApiClient(HUB, {
+    http: new HttpClient({ fetch, requestsPerSecond: 0 }),
+  });
+
+  const pageRequests = () =>
+    fetch.mock.calls.filter(([input]) =>
+      String(input).includes("/v1/castsByMention")
+    ).length;
+
+  return { client, fetch, pageRequests };
+}
+
+/**
+ * Client for a hub answering every request with `answer`, without retries
+ */
+function hubAnswering(answer: (url: URL) => Response) {
+  const fetch = vi.fn(async (input: string | URL | Request) =>
+    answer(new URL(String(input)))
+  );
+  const client = createHubApiClient(HUB, {
+    http: new HttpClient({ fetch, requestsPerSecond: 0, maxRetries: 0 }),
+  });
+  return { client, fetch };
+}
+
+async function collect(
+  casts: AsyncIterable<CastWithAuthor>
+): Promise<number[]> {
+  const fids: number[] = [];
+  for await (const cast of casts) fids.push(cast.fid);
+  return fids;
+}
+
+describe("HubApiClient", () => {
+  describe("iterateMentions", () => {
+    const PAGES = [
+      [9, 8, 7],
+      [6, 5, 4],
+      [3, 2, 1],
+    ];
+
+    it("walks every page by its token", async () => {
+      const { client, pageRequests } = hubServing(PAGES);
+
+      expect(await collect(client.iterateMentions(100))).toEqual([
+        9, 8, 7, 6, 5, 4, 3, 2, 1,
+      ]);
+      expect(pageRequests()).toBe(3);
+    });
+
+    it("stops at the first cast older than sinceTimestamp", async () => {
+      const { client, pageRequests } = hubServing(PAGES);
+
+      const casts = client.iterateMentions(100, { sinceTimestamp: 50 });
+
+      expect(await collect(casts)).toEqual([9, 8, 7, 6, 5]);
+      expect(pageRequests()).toBe(2);
+    });
+
+    it("stops without yielding the cast matching stopWhen", async () => {
+      const { client } = hubServing(PAGES);
+
+      const casts = client.iterateMentions(100, {
+        stopWhen: (cast) => cast.fid === 4,
+      });
+
+      expect(await collect(casts)).toEqual([9, 8, 7, 6, 5]);
+    });
+
+    it("stops after maxItems without fetching further pages", async () => {
+      const { client, pageRequests } = hubServing(PAGES);
+
+      const casts = client.iterateMentions(100, { maxItems: 3 });
+
+      expect(await collect(casts)).toEqual([9, 8, 7]);
+      expect(pageRequests()).toBe(1);
+    });
+
+    it("stops fetching when the consumer breaks", async () => {
+      const { client, pageRequests } = hubServing(PAGES);
+
+      for await (const cast of client.iterateMentions(100)) {
+        if (cast.fid === 8) break;
+      }
+
+      expect(pageRequests()).toBe(1);
+    });
+
+    it("ends on an empty page", async () => {
+      const { client } = hubServing([]);
+
+      expect(await collect(client.iterateMentions(100))).toEqual([]);
+    });
+  });
+
+  describe("getMentionsPage", () => {
+    it("asks for recent casts first and passes the page token", async () => {
+      const { client, fetch } = hubServing([[3], [2]]);
+
+      const page = await client.getMentionsPage(100, {
+        pageSize: 5,
+        pageToken: "1",
+      });
+
+      const url = new URL(String(fetch.mock.calls[0][0]));
+      expect(url.searchParams.get("reverse")).toBe("true");
+      expect(url.searchParams.get("pageSize")).toBe("5");
+      expect(url.searchParams.get("pageToken")).toBe("1");
+      expect(page.items.map((cast) => cast.fid)).toEqual([2]);
+      expect(page.nextPageToken).toBeNull();
+    });
+  });
+
+  describe("response validation", () => {
+    beforeEach(() => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("skips malformed messages and keeps the rest of the page", async () => {
+      const page = {
+        messages: [
+          castMessage(3),
+          { ...castMessage(2), hash: "not hex" },
+          { hash: "0x01", data: { ...castMessage(1).data, fid: "one" } },
+          {
+            hash: "0x00aa",
+            data: { type: "MESSAGE_TYPE_REACTION_ADD", fid: 5, timestamp: 1 },
+          },
+        ],
+      };
+      const { client } = hubAnswering((url) =>
+        Response.json(
+          url.pathname === "/v1/castsByMention" ? page : { messages: [] }
+        )
+      );
+
+      const { items } = await client.getMentionsPage(100);
+
+      expect(items.map((cast) => cast.fid)).toEqual([3]);
+      expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+
+    it("fills in defaults for fields the hub leaves out", async () => {
+      const { client } = hubAnswering(() =>
+        Response.json({
+          messages: [
+            {
+              hash: "0x0001",
+              data: {
+                type: "MESSAGE_TYPE_CAST_ADD",
+                fid: 1,
+                timestamp: 10,
+                castAddBody: {},
+              },
+            },
+          ],
+        })
+      );
+
+      const [cast] = (await client.getMentionsPage(100)).items;
+
+      expect(cast).toMatchObject({
+        text: "",
+        mentions: [],
+        embeds: [],
+        parentHash: null,
+      });
+    });
+
+    it("reports every invalid field of a response", async () => {
+      const { client } = hubAnswering(() =>
+        Response.json({ hash: "0x01", data: { type: 1, fid: -1 } })
+      );
+
+      const error = await client
+        .strict()
+        .getCast(1, "0x01")
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(HubResponseError);
+      const fields = (error as HubResponseError).issues.map(
+        (issue) => issue.split(":")[0]
+      );
+      expect(fields).toEqual(["data.type", "data.fid", "data.timestamp"]);
+    });
+
+    it("treats a body that isn't JSON as a response error", async () => {
+      const { client } = hubAnswering(() => new Response("<html>"));
+
+      await expect(client.strict().getInfo()).rejects.toBeInstanceOf(
+        HubResponseError
+      );
+      expect(await client.getInfo()).toBeNull();
+    });
+  });
+
+  describe("strict", () => {
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("throws a retryable HubHttpError where the default returns empty", async () => {
+      const { client } = hubAnswering(
+        () => new Response(null, { status: 503 })
+      );
+
+      const error = await client
+        .strict()
+        .getMentionsPage(100)
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(HubHttpError);
+      expect(error).toMatchObject({ status: 503, retryable: true });
+      expect(await client.getMentionsPage(100)).toEqual({
+        items: [],
+        nextPageToken: null,
+      });
+    });
+
+    it("throws HubNetworkError when the hub can't be reached", async () => {
+      const { client } = hubAnswering(() => {
+        throw new TypeError("fetch failed");
+      });
+
+      await expect(client.strict().getReactions(1, "0x01")).rejects.toThrow(
+        HubNetworkError
+      );
+      expect(await client.getReactions(1, "0x01")).toEqual([]);
+    });
+
+    it("throws HubNotFoundError for a missing cast, without logging it", async () => {
+      const { client } = hubAnswering(
+        () => new Response(null, { status: 404 })
+      );
+
+      await expect(client.strict().getCast(1, "0x01")).rejects.toThrow(
+        HubNotFoundError
+      );
+      expect(await client.getCast(1, "0x01")).toBeNull();
+      expect(await client.getFidByUsername("nobody")).toBeNull();
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it("follows the client to another hub", async () => {
+      const { client, fetch } = hubAnswering(() => Response.json({}));
+      const strict = client.strict();
+
+      client.setHttpUrl("http://backup.test/");
+      await strict.getInfo();
+
+      expect(strict.getHttpUrl()).toBe("http://backup.test");
+      expect(String(fetch.mock.calls[0][0])).toBe("http://backup.test/v1/info");
+    });
+  });
+
+  describe("getThread", () => {
+    /** hash -> [fid, parent hash] */
+    type Graph = Record<string, [number, string | null]>;
+
+    // root <- middle <- target <- first, second; first <- nested
+    const GRAPH: Graph = {
+      "0x0a": [1, null],
+      "0x0b": [2, "0x0a"],
+      "0x0c": [3, "0x0b"],
+      "0x0d": [4, "0x0c"],
+      "0x0e": [5, "0x0c"],
+      "0x0f": [6, "0x0d"],
+    };
+
+    function message(graph: Graph, hash: string) {
+      const [fid, parentHash] = graph[hash];
+      return {
+        hash,
+        data: {
+          type: "MESSAGE_TYPE_CAST_ADD",
+          fid,
+          timestamp: fid * 10,
+          castAddBody: {
+            text: `cast ${hash}`,
+            ...(parentHash && {
+              parentCastId: { fid: graph[parentHash][0], hash: parentHash },
+            }),
+          },
+        },
+      };
+    }
+
+    /**
+     * Client for a hub holding the casts in `graph`, except `missing` ones
+     */
+    function threadHub(graph: Graph, missing: string[] = []) {
+      return hubAnswering((url) => {
+        const hash = url.searchParams.get("hash");
+        if (url.pathname === "/v1/castById") {
+          return hash && graph[hash] && !missing.includes(hash)
+            ? Response.json(message(graph, hash))
+            : new Response(null, { status: 404 });
+        }
+        if (url.pathname === "/v1/castsByParent") {
+          const replies = Object.keys(graph)
+            .filter((reply) => graph[reply][1] === hash)
+            .map((reply) => message(graph, reply));
+          if (url.searchParams.get("reverse") === "true") replies.reverse();
+          return Response.json({ messages: replies });
+        }
+        return Response.json({ messages: [] });
+      });
+    }
+
+    const hashes = (casts: CastWithAuthor[]) => casts.map((cast) => cast.hash);
+
+    it("walks up to the root and down the replies", async () => {
+      const { client } = threadHub(GRAPH);
+
+      const thread = await client.getThread(3, "0x0c");
+
+      expect(thread?.truncated).toBe(false);
+      expect(hashes(thread!.ancestors)).toEqual(["0x0a", "0x0b"]);
+      expect(thread!.root.cast.hash).toBe("0x0a");
+      expect(thread!.root.replies[0].replies[0]).toBe(thread!.target);
+
+      const replies = thread!.target.replies;
+      expect(hashes(replies.map((node) => node.cast))).toEqual([
+        "0x0d",
+        "0x0e",
+      ]);
+      expect(replies[0].replies[0].cast.hash).toBe("0x0f");
+    });
+
+    it("stops at maxReplyDepth and maxRepliesPerCast", async () => {
+      const { client } = threadHub(GRAPH);
+
+      const thread = await client.getThread(3, "0x0c", {
+        maxReplyDepth: 1,
+        maxRepliesPerCast: 1,
+      });
+
+      expect(thread!.target.replies).toHaveLength(1);
+      expect(thread!.target.replies[0].replies).toEqual([]);
+    });
+
+    it("marks the thread truncated at maxAncestors", async () => {
+      const { client } = threadHub(GRAPH);
+
+      const thread = await client.getThread(3, "0x0c", { maxAncestors: 1 });
+
+      expect(thread?.truncated).toBe(true);
+      expect(hashes(thread!.ancestors)).toEqual(["0x0b"]);
+    });
+
+    it("marks the thread truncated when a parent is missing", async () => {
+      const { client } = threadHub(GRAPH, ["0x0a"]);
+
+      const thread = await client.getThread(3, "0x0c");
+
+      expect(thread?.truncated).toBe(true);
+      expect(thread!.root.cast.hash).toBe("0x0b");
+    });
+
+    it("returns null for a missing cast", async () => {
+      const { client } = threadHub(GRAPH);
+
+      expect(await client.getThread(9, "0x99")).toBeNull();
+    });
+  });
+
+  describe("embeds", () => {
+    it("reads links, quoted casts and deprecated URLs", async () => {
+      const { client } = hubAnswering((url) => {
+        if (url.pathname !== "/v1/castById") {
+          return Response.json({ messages: [] });
+        }
+        const message = castMessage(3);
+        return Response.json({
+          ...message,
+          data: {
+            ...message.data,
+            castAddBody: {
+              text: "look",
+              embeds: [
+                { url: "https://example.com/post" },
+                { castId: { fid: 1, hash: "0x0001" } },
+                {},
+              ],
+              embedsDeprecated: ["https://example.com/old"],
+            },
+          },
+        });
+      });
+
+      const cast = await client.getCast(3, "0x0003");
+
+      expect(cast?.embeds).toEqual([
+        { type: "url", url: "https://example.com/post" },
+        { type: "cast", castId: { fid: 1, hash: "0x0001" } },
+        { type: "url", url: "https://example.com/old" },
+      ]);
+    });
+  });
+});
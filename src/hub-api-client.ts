@@ -7,15 +7,57 @@
  * IMPORTANT: Uses `reverse=true` parameter to get recent data first.
  * Without this, the hub returns oldest data first which is usually not useful.
  *
+ * Responses are validated against the models in hub-schemas. Malformed
+ * messages in a page are skipped with a warning rather than read as zeros.
+ *
+ * Author and mention profiles come from an LRU+TTL user cache. Pages
+ * prefetch all their users concurrently before building casts.
+ *
+ * Requests go through an HttpClient (./http): timeouts, cancellation, rate
+ * and concurrency limits, retries. Share one between clients to share the
+ * limits.
+ *
+ * Reads log failures and return empty results ([], null, a placeholder
+ * user). Use strict() when the caller needs to tell "nothing there" from
+ * "hub down": its reads throw the typed errors from ./errors instead.
+ *
  * No external API dependencies - fully self-hosted.
  */
 
+import { z } from "zod";
+import { renderCastText } from "./cast-text";
+import {
+  HubHttpError,
+  HubNetworkError,
+  HubNotFoundError,
+  HubResponseError,
+} from "./errors";
+import {
+  HubInfo,
+  HubMessage,
+  HubMessagesPage,
+  hubInfoSchema,
+  hubMessageSchema,
+  hubMessagesPageSchema,
+  hubUserNameProofSchema,
+  parseHubResponse,
+} from "./hub-schemas";
+import { HttpClient } from "./http";
+import { UserCache, UserCacheOptions, UserCacheStats } from "./user-cache";
+
 const logger = {
   info: (...args: unknown[]) => console.log("[HubApiClient]", ...args),
   error: (...args: unknown[]) => console.error("[HubApiClient]", ...args),
   warn: (...args: unknown[]) => console.warn("[HubApiClient]", ...args),
 };
 
+/**
+ * A cast embed: a link (page, image, video, frame) or a quoted cast
+ */
+export type HubEmbed =
+  | { type: "url"; url: string }
+  | { type: "cast"; castId: { fid: number; hash: string } };
+
 export interface HubCast {
   hash: string;
   fid: number;
@@ -26,7 +68,11 @@ export interface HubCast {
   parentUrl: string | null;
   mentions: number[];
   mentionsPositions: number[];
-  embeds: string[];
+  embeds: HubEmbed[];
+  /** Text with @usernames re-inserted at the mention positions */
+  renderedText: string;
+  /** Users mentioned in the cast, in mention order, without duplicates */
+  mentionedUsers: HubUser[];
 }
 
 export interface HubUser {
@@ -41,12 +87,151 @@ export interface CastWithAuthor extends HubCast {
   author: HubUser;
 }
 
+export interface HubApiClientOptions {
+  /**
+   * Throw HubErrors from reads instead of logging them and returning empty
+   * results (default false). See HubApiClient.strict().
+   */
+  throwOnError?: boolean;
+  /** HTTP layer to send requests through (default: a new HttpClient) */
+  http?: HttpClient;
+  /** Size and TTLs of the user profile cache */
+  userCache?: UserCacheOptions;
+  /** Max concurrent profile requests when prefetching (default 8) */
+  prefetchConcurrency?: number;
+}
+
+export interface PageOptions {
+  pageSize?: number;
+  pageToken?: string;
+  /** Newest first (default true) */
+  reverse?: boolean;
+}
+
+export interface CastPage {
+  items: CastWithAuthor[];
+  /** Token for the next page, or null when there are no more */
+  nextPageToken: string | null;
+}
+
+export interface IterateOptions extends PageOptions {
+  /** Stop after yielding this many casts */
+  maxItems?: number;
+  /**
+   * Stop at the first cast older than this Farcaster timestamp.
+   * Only meaningful with reverse=true (the default).
+   */
+  sinceTimestamp?: number;
+  /** Stop (without yielding) at the first cast matching this predicate */
+  stopWhen?: (cast: CastWithAuthor) => boolean;
+}
+
+export interface ThreadNode {
+  cast: CastWithAuthor;
+  /** Direct replies, oldest first */
+  replies: ThreadNode[];
+}
+
+export interface CastThread {
+  /**
+   * Top of the conversation. Ancestor nodes only carry the branch that
+   * leads to the requested cast, not their other replies.
+   */
+  root: ThreadNode;
+  /** Node for the requested cast, with its reply subtree */
+  target: ThreadNode;
+  /** Casts between the root and the target, oldest first (root included) */
+  ancestors: CastWithAuthor[];
+  /** True when an ancestor was missing or the walk hit maxAncestors */
+  truncated: boolean;
+}
+
+export interface ThreadOptions {
+  /** Max ancestors to walk up (default 20) */
+  maxAncestors?: number;
+  /** Levels of replies to fetch below the target, 0 for none (default 2) */
+  maxReplyDepth?: number;
+  /** Max replies fetched per cast (default 25) */
+  maxRepliesPerCast?: number;
+}
+
+function parseEmbed(embed: {
+  url?: string;
+  castId?: { fid: number; hash: string };
+}): HubEmbed | null {
+  if (embed.castId) return { type: "cast", castId: embed.castId };
+  if (embed.url) return { type: "url", url: embed.url };
+  return null;
+}
+
+/**
+ * Stand-in for FIDs without a profile or when the hub can't be read
+ */
+function placeholderUser(fid: number): HubUser {
+  return {
+    fid,
+    username: `fid:${fid}`,
+    displayName: `User ${fid}`,
+    pfpUrl: "",
+    bio: "",
+  };
+}
+
+function withHexPrefix(hash: string): string {
+  return hash.startsWith("0x") ? hash : `0x${hash}`;
+}
+
 export class HubApiClient {
   private httpUrl: string;
-  private userCache: Map<number, HubUser> = new Map();
+  private http: HttpClient;
+  private userCache: UserCache;
+  /** Profile requests in flight, so concurrent lookups share one */
+  private pendingUsers: Map<number, Promise<HubUser | null>> = new Map();
+  private strictView: HubApiClient | null = null;
+
+  constructor(
+    hubHttpUrl: string,
+    private options: HubApiClientOptions = {}
+  ) {
+    this.httpUrl = hubHttpUrl.replace(/\/$/, "");
+    this.http = options.http ?? new HttpClient();
+    this.userCache = new UserCache(options.userCache);
+  }
+
+  /**
+   * The hub currently read from
+   */
+  getHttpUrl(): string {
+    return this.httpUrl;
+  }
 
-  constructor(hubHttpUrl: string) {
+  /**
+   * Read from another hub (see HubMonitor). Also moves the strict() view.
+   */
+  setHttpUrl(hubHttpUrl: string): void {
     this.httpUrl = hubHttpUrl.replace(/\/$/, "");
+    this.strictView?.setHttpUrl(hubHttpUrl);
+  }
+
+  /**
+   * A view of this client whose reads throw instead of returning empty
+   * results: HubNetworkError, HubHttpError, HubNotFoundError or
+   * HubResponseError. Shares the HTTP layer, the user cache and in-flight
+   * requests.
+   */
+  strict(): HubApiClient {
+    if (this.options.throwOnError) return this;
+
+    if (!this.strictView) {
+      this.strictView = new HubApiClient(this.httpUrl, {
+        ...this.options,
+        http: this.http,
+        throwOnError: true,
+      });
+      this.strictView.userCache = this.userCache;
+      this.strictView.pendingUsers = this.pendingUsers;
+    }
+    return this.strictView;
   }
 
   /**
@@ -56,41 +241,12 @@ export class HubApiClient {
    * The hub's default behavior returns oldest data first.
    */
   async getMentions(fid: number, limit: number = 20): Promise<CastWithAuthor[]> {
-    try {
-      // CRITICAL: reverse=true gets recent data first
-      const url = `${this.httpUrl}/v1/castsByMention?fid=${fid}&pageSize=${limit}&reverse=true`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        logger.error("getMentions failed:", response.status);
-        return [];
-      }
-
-      const data = await response.json();
-      const messages = data.messages || [];
-
-      const casts: CastWithAuthor[] = [];
-
-      for (const msg of messages) {
-        if (msg.data?.type !== "MESSAGE_TYPE_CAST_ADD") continue;
-
-        const cast = this.parseCastMessage(msg);
-        const author = await this.getUser(cast.fid);
-
-        casts.push({
-          ...cast,
-          author,
-        });
-      }
+    const { items } = await this.getMentionsPage(fid, { pageSize: limit });
 
-      // Sort by timestamp descending (most recent first)
-      casts.sort((a, b) => b.timestamp - a.timestamp);
+    // Sort by timestamp descending (most recent first)
+    items.sort((a, b) => b.timestamp - a.timestamp);
 
-      return casts.slice(0, limit);
-    } catch (error) {
-      logger.error("Error getting mentions:", String(error));
-      return [];
-    }
+    return items.slice(0, limit);
   }
 
   /**
@@ -102,161 +258,431 @@ export class HubApiClient {
     channelUrl: string,
     limit: number = 20
   ): Promise<CastWithAuthor[]> {
-    try {
-      // CRITICAL: reverse=true gets recent data first
-      const url = `${this.httpUrl}/v1/castsByParent?url=${encodeURIComponent(channelUrl)}&pageSize=${limit}&reverse=true`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        logger.error("getChannelCasts failed:", response.status);
-        return [];
-      }
+    const { items } = await this.getChannelCastsPage(channelUrl, {
+      pageSize: limit,
+    });
+    return items;
+  }
 
-      const data = await response.json();
-      const messages = data.messages || [];
+  /**
+   * Get casts by a specific FID
+   */
+  async getCastsByFid(
+    fid: number,
+    limit: number = 20
+  ): Promise<CastWithAuthor[]> {
+    const { items } = await this.getCastsByFidPage(fid, { pageSize: limit });
+    return items;
+  }
 
-      const casts: CastWithAuthor[] = [];
+  /**
+   * Get one page of casts that mention a specific FID
+   */
+  async getMentionsPage(
+    fid: number,
+    options: PageOptions = {}
+  ): Promise<CastPage> {
+    return this.getCastPage("castsByMention", { fid: String(fid) }, options);
+  }
 
-      for (const msg of messages) {
-        if (msg.data?.type !== "MESSAGE_TYPE_CAST_ADD") continue;
+  /**
+   * Get one page of casts from a channel (by parent URL)
+   */
+  async getChannelCastsPage(
+    channelUrl: string,
+    options: PageOptions = {}
+  ): Promise<CastPage> {
+    return this.getCastPage("castsByParent", { url: channelUrl }, options);
+  }
 
-        const cast = this.parseCastMessage(msg);
-        const author = await this.getUser(cast.fid);
+  /**
+   * Get one page of casts by a specific FID
+   */
+  async getCastsByFidPage(
+    fid: number,
+    options: PageOptions = {}
+  ): Promise<CastPage> {
+    return this.getCastPage("castsByFid", { fid: String(fid) }, options);
+  }
 
-        casts.push({
-          ...cast,
-          author,
-        });
-      }
+  /**
+   * Iterate over all casts mentioning a FID, newest first, across pages
+   */
+  iterateMentions(
+    fid: number,
+    options: IterateOptions = {}
+  ): AsyncIterable<CastWithAuthor> {
+    return this.iterateCasts(
+      (pageOptions) => this.getMentionsPage(fid, pageOptions),
+      options
+    );
+  }
 
-      return casts;
-    } catch (error) {
-      logger.error("Error getting channel casts:", String(error));
-      return [];
-    }
+  /**
+   * Iterate over all casts in a channel, newest first, across pages
+   */
+  iterateChannelCasts(
+    channelUrl: string,
+    options: IterateOptions = {}
+  ): AsyncIterable<CastWithAuthor> {
+    return this.iterateCasts(
+      (pageOptions) => this.getChannelCastsPage(channelUrl, pageOptions),
+      options
+    );
   }
 
   /**
-   * Get casts by a specific FID
+   * Iterate over all casts by a FID, newest first, across pages
    */
-  async getCastsByFid(
+  iterateCastsByFid(
     fid: number,
-    limit: number = 20
-  ): Promise<CastWithAuthor[]> {
-    try {
-      const url = `${this.httpUrl}/v1/castsByFid?fid=${fid}&pageSize=${limit}&reverse=true`;
-      const response = await fetch(url);
+    options: IterateOptions = {}
+  ): AsyncIterable<CastWithAuthor> {
+    return this.iterateCasts(
+      (pageOptions) => this.getCastsByFidPage(fid, pageOptions),
+      options
+    );
+  }
 
-      if (!response.ok) {
-        logger.error("getCastsByFid failed:", response.status);
-        return [];
-      }
+  /**
+   * Fetch one page of casts from a hub list endpoint
+   *
+   * NOTE: Uses reverse=true by default to get recent casts first.
+   */
+  private async getCastPage(
+    endpoint: string,
+    params: Record<string, string>,
+    options: PageOptions
+  ): Promise<CastPage> {
+    try {
+      const query: Record<string, string> = {
+        ...params,
+        pageSize: String(options.pageSize ?? 20),
+        // CRITICAL: reverse=true gets recent data first
+        reverse: String(options.reverse ?? true),
+      };
+      if (options.pageToken) query.pageToken = options.pageToken;
 
-      const data = await response.json();
-      const messages = data.messages || [];
+      const page = await this.request(endpoint, query, hubMessagesPageSchema);
 
-      const author = await this.getUser(fid);
-      const casts: CastWithAuthor[] = [];
+      const casts = this.parseMessages(page, endpoint)
+        .filter((message) => message.data.type === "MESSAGE_TYPE_CAST_ADD")
+        .map((message) => this.parseCastMessage(message, endpoint));
 
-      for (const msg of messages) {
-        if (msg.data?.type !== "MESSAGE_TYPE_CAST_ADD") continue;
+      // One concurrent round of profile lookups instead of one per cast
+      await this.prefetchUsers(
+        casts.flatMap((cast) => [cast.fid, ...cast.mentions])
+      );
 
-        const cast = this.parseCastMessage(msg);
-        casts.push({
-          ...cast,
-          author,
-        });
+      const items: CastWithAuthor[] = [];
+      for (const cast of casts) {
+        items.push(await this.withUsers(cast));
       }
 
-      return casts;
+      return { items, nextPageToken: page.nextPageToken || null };
     } catch (error) {
-      logger.error("Error getting casts by FID:", String(error));
-      return [];
+      this.handleError(error, `Error getting ${endpoint}`);
+      return { items: [], nextPageToken: null };
+    }
+  }
+
+  /**
+   * Walk pages until the hub runs out or a stop condition is hit
+   */
+  private async *iterateCasts(
+    fetchPage: (options: PageOptions) => Promise<CastPage>,
+    options: IterateOptions
+  ): AsyncGenerator<CastWithAuthor> {
+    const { maxItems = Infinity, sinceTimestamp, stopWhen } = options;
+    let pageToken = options.pageToken;
+    let yielded = 0;
+
+    while (yielded < maxItems) {
+      const page = await fetchPage({
+        pageSize: options.pageSize,
+        reverse: options.reverse,
+        pageToken,
+      });
+
+      for (const cast of page.items) {
+        // Pages are newest first, so everything after this is older too
+        if (sinceTimestamp !== undefined && cast.timestamp < sinceTimestamp) {
+          return;
+        }
+        if (stopWhen?.(cast)) return;
+
+        yield cast;
+        if (++yielded >= maxItems) return;
+      }
+
+      if (!page.nextPageToken) return;
+      pageToken = page.nextPageToken;
     }
   }
 
   /**
    * Get a specific cast by hash
+   *
+   * Returns null if it doesn't exist (strict: throws HubNotFoundError).
    */
   async getCast(fid: number, hash: string): Promise<CastWithAuthor | null> {
     try {
-      const hashParam = hash.startsWith("0x") ? hash : `0x${hash}`;
-      const url = `${this.httpUrl}/v1/castById?fid=${fid}&hash=${hashParam}`;
-      const response = await fetch(url);
+      const message = await this.request(
+        "castById",
+        { fid: String(fid), hash: withHexPrefix(hash) },
+        hubMessageSchema
+      );
+      if (message.data.type !== "MESSAGE_TYPE_CAST_ADD") return null;
+
+      return await this.withUsers(this.parseCastMessage(message, "castById"));
+    } catch (error) {
+      this.handleError(error, "Error getting cast");
+      return null;
+    }
+  }
 
-      if (!response.ok) {
-        return null;
+  /**
+   * Get one page of direct replies to a cast
+   *
+   * NOTE: Defaults to oldest first so replies read in conversation order.
+   */
+  async getRepliesPage(
+    fid: number,
+    hash: string,
+    options: PageOptions = {}
+  ): Promise<CastPage> {
+    return this.getCastPage(
+      "castsByParent",
+      { fid: String(fid), hash: withHexPrefix(hash) },
+      { reverse: false, ...options }
+    );
+  }
+
+  /**
+   * Iterate over all direct replies to a cast, oldest first
+   */
+  iterateReplies(
+    fid: number,
+    hash: string,
+    options: IterateOptions = {}
+  ): AsyncIterable<CastWithAuthor> {
+    return this.iterateCasts(
+      (pageOptions) => this.getRepliesPage(fid, hash, pageOptions),
+      { reverse: false, ...options }
+    );
+  }
+
+  /**
+   * Reconstruct the conversation around a cast
+   *
+   * Walks parent casts up to the root, then fetches replies below the
+   * requested cast. Returns null if the cast itself can't be found.
+   */
+  async getThread(
+    fid: number,
+    hash: string,
+    options: ThreadOptions = {}
+  ): Promise<CastThread | null> {
+    const {
+      maxAncestors = 20,
+      maxReplyDepth = 2,
+      maxRepliesPerCast = 25,
+    } = options;
+
+    const cast = await this.getCast(fid, hash);
+    if (!cast) return null;
+
+    const ancestors: CastWithAuthor[] = [];
+    let truncated = false;
+    let parentFid = cast.parentFid;
+    let parentHash = cast.parentHash;
+
+    while (parentFid && parentHash) {
+      if (ancestors.length >= maxAncestors) {
+        truncated = true;
+        break;
       }
 
-      const msg = await response.json();
-      if (msg.data?.type !== "MESSAGE_TYPE_CAST_ADD") return null;
+      const parent = await this.getCast(parentFid, parentHash).catch(
+        (error) => {
+          if (error instanceof HubNotFoundError) return null;
+          throw error;
+        }
+      );
+      if (!parent) {
+        // Parent deleted or not synced to this hub yet
+        truncated = true;
+        break;
+      }
 
-      const cast = this.parseCastMessage(msg);
-      const author = await this.getUser(cast.fid);
+      ancestors.unshift(parent);
+      parentFid = parent.parentFid;
+      parentHash = parent.parentHash;
+    }
 
-      return {
-        ...cast,
-        author,
-      };
-    } catch (error) {
-      logger.error("Error getting cast:", String(error));
-      return null;
+    const target = await this.buildReplyTree(
+      cast,
+      maxReplyDepth,
+      maxRepliesPerCast
+    );
+
+    // Chain ancestors root -> target
+    let root = target;
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      root = { cast: ancestors[i], replies: [root] };
+    }
+
+    return { root, target, ancestors, truncated };
+  }
+
+  private async buildReplyTree(
+    cast: CastWithAuthor,
+    depth: number,
+    maxReplies: number
+  ): Promise<ThreadNode> {
+    const node: ThreadNode = { cast, replies: [] };
+    if (depth <= 0) return node;
+
+    for await (const reply of this.iterateReplies(cast.fid, cast.hash, {
+      pageSize: maxReplies,
+      maxItems: maxReplies,
+    })) {
+      node.replies.push(
+        await this.buildReplyTree(reply, depth - 1, maxReplies)
+      );
     }
+
+    return node;
   }
 
   /**
    * Get user data by FID
+   *
+   * Served from the user cache when fresh. FIDs without a profile, or a hub
+   * that can't be read, give a placeholder user (username "fid:N"). Strict:
+   * read failures throw instead.
    */
   async getUser(fid: number): Promise<HubUser> {
-    // Check cache first
     const cached = this.userCache.get(fid);
-    if (cached) return cached;
-
-    const user: HubUser = {
-      fid,
-      username: `fid:${fid}`,
-      displayName: `User ${fid}`,
-      pfpUrl: "",
-      bio: "",
-    };
+    if (cached !== undefined) return cached ?? placeholderUser(fid);
 
     try {
-      const url = `${this.httpUrl}/v1/userDataByFid?fid=${fid}`;
-      const response = await fetch(url);
+      return (await this.loadUser(fid)) ?? placeholderUser(fid);
+    } catch (error) {
+      this.handleError(error, `Error getting user ${fid}`);
+      return placeholderUser(fid);
+    }
+  }
 
-      if (!response.ok) {
-        return user;
+  /**
+   * Load profiles for many FIDs into the user cache
+   *
+   * Skips cached FIDs, joins requests already in flight and runs at most
+   * prefetchConcurrency requests at once. Each FID it has to load counts as
+   * a cache miss. Failures are left for getUser() to report.
+   */
+  async prefetchUsers(fids: Iterable<number>): Promise<void> {
+    const queue = [...new Set(fids)].filter(
+      (fid) => !this.userCache.has(fid)
+    );
+    this.userCache.recordMiss(queue.length);
+    const concurrency = Math.min(
+      this.options.prefetchConcurrency ?? 8,
+      queue.length
+    );
+
+    const worker = async () => {
+      for (let fid = queue.shift(); fid !== undefined; fid = queue.shift()) {
+        await this.loadUser(fid).catch(() => undefined);
       }
+    };
 
-      const data = await response.json();
-      const messages = data.messages || [];
-
-      for (const msg of messages) {
-        const userData = msg.data?.userDataBody;
-        if (!userData) continue;
-
-        switch (userData.type) {
-          case "USER_DATA_TYPE_USERNAME":
-            user.username = userData.value;
-            break;
-          case "USER_DATA_TYPE_DISPLAY":
-            user.displayName = userData.value;
-            break;
-          case "USER_DATA_TYPE_PFP":
-            user.pfpUrl = userData.value;
-            break;
-          case "USER_DATA_TYPE_BIO":
-            user.bio = userData.value;
-            break;
-        }
+    await Promise.all(Array.from({ length: concurrency }, worker));
+  }
+
+  /**
+   * Hit/miss counters and size of the user cache
+   */
+  getUserCacheStats(): UserCacheStats {
+    return this.userCache.getStats();
+  }
+
+  /**
+   * Fetch a profile into the cache, sharing the request with concurrent
+   * callers. Resolves null when the hub has no profile for the FID.
+   */
+  private loadUser(fid: number): Promise<HubUser | null> {
+    let pending = this.pendingUsers.get(fid);
+    if (!pending) {
+      pending = this.fetchUser(fid).finally(() =>
+        this.pendingUsers.delete(fid)
+      );
+      this.pendingUsers.set(fid, pending);
+    }
+    return pending;
+  }
+
+  private async fetchUser(fid: number): Promise<HubUser | null> {
+    let page: HubMessagesPage;
+    try {
+      page = await this.request(
+        "userDataByFid",
+        { fid: String(fid) },
+        hubMessagesPageSchema
+      );
+    } catch (error) {
+      if (!(error instanceof HubNotFoundError)) throw error;
+      this.userCache.set(fid, null);
+      return null;
+    }
+
+    const user = placeholderUser(fid);
+    let found = false;
+
+    for (const message of this.parseMessages(page, "userDataByFid")) {
+      const userData = message.data.userDataBody;
+      if (!userData) continue;
+
+      switch (userData.type) {
+        case "USER_DATA_TYPE_USERNAME":
+          user.username = userData.value;
+          break;
+        case "USER_DATA_TYPE_DISPLAY":
+          user.displayName = userData.value;
+          break;
+        case "USER_DATA_TYPE_PFP":
+          user.pfpUrl = userData.value;
+          break;
+        case "USER_DATA_TYPE_BIO":
+          user.bio = userData.value;
+          break;
+        default:
+          continue;
       }
+      found = true;
+    }
 
-      // Cache the user
-      this.userCache.set(fid, user);
+    this.userCache.set(fid, found ? user : null);
+    return found ? user : null;
+  }
 
-      return user;
-    } catch {
-      return user;
+  /**
+   * Resolve an fname (e.g. "alice") to its FID via the hub's username proofs
+   *
+   * Returns null for unknown names (strict: throws HubNotFoundError).
+   */
+  async getFidByUsername(username: string): Promise<number | null> {
+    try {
+      const name = username.replace(/^@/, "").toLowerCase();
+      const proof = await this.request(
+        "userNameProofByName",
+        { name },
+        hubUserNameProofSchema
+      );
+      return proof.fid;
+    } catch (error) {
+      this.handleError(error, "Error resolving username");
+      return null;
     }
   }
 
@@ -269,103 +695,255 @@ export class HubApiClient {
     type: "likes" | "recasts" = "likes"
   ): Promise<number[]> {
     try {
-      const reactionType = type === "likes" ? 1 : 2;
-      const hashParam = targetHash.startsWith("0x")
-        ? targetHash
-        : `0x${targetHash}`;
-      const url = `${this.httpUrl}/v1/reactionsByCast?targetFid=${targetFid}&targetHash=${hashParam}&reactionType=${reactionType}`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        return [];
-      }
+      const page = await this.request(
+        "reactionsByCast",
+        {
+          targetFid: String(targetFid),
+          targetHash: withHexPrefix(targetHash),
+          reactionType: type === "likes" ? "1" : "2",
+        },
+        hubMessagesPageSchema
+      );
+
+      return this.parseMessages(page, "reactionsByCast").map(
+        (message) => message.data.fid
+      );
+    } catch (error) {
+      this.handleError(error, "Error getting reactions");
+      return [];
+    }
+  }
 
-      const data = await response.json();
-      const messages = data.messages || [];
+  /**
+   * Count a FID's messages in one store (casts, reactions or links)
+   *
+   * Pages through the store, so the count is a lower bound when it stops at
+   * maxPages. Returns null if the hub can't be read.
+   */
+  async countMessagesByFid(
+    store: "casts" | "reactions" | "links",
+    fid: number,
+    maxPages: number = 50
+  ): Promise<number | null> {
+    const endpoint = {
+      casts: "castsByFid",
+      reactions: "reactionsByFid",
+      links: "linksByFid",
+    }[store];
+    let count = 0;
+    let pageToken: string | undefined;
 
-      return messages
-        .map((msg: Record<string, unknown>) => {
-          const msgData = msg.data as Record<string, unknown> | undefined;
-          return msgData?.fid;
-        })
-        .filter(Boolean);
+    try {
+      for (let page = 0; page < maxPages; page++) {
+        const query: Record<string, string> = {
+          fid: String(fid),
+          pageSize: "1000",
+        };
+        if (pageToken) query.pageToken = pageToken;
+
+        const page = await this.request(endpoint, query, hubMessagesPageSchema);
+        count += page.messages.length;
+        pageToken = page.nextPageToken || undefined;
+        if (!pageToken) break;
+      }
     } catch (error) {
-      logger.error("Error getting reactions:", String(error));
-      return [];
+      this.handleError(error, `Error counting ${store}`);
+      return null;
     }
+
+    return count;
   }
 
   /**
-   * Check hub health and get info
+   * Get the FIDs a user follows
+   *
+   * Walks every page of follow links (capped at maxPages). If a page fails
+   * the follows read so far are returned (strict: throws).
    */
-  async getInfo(): Promise<Record<string, unknown> | null> {
+  async getFollowing(fid: number, maxPages: number = 20): Promise<number[]> {
+    const following: number[] = [];
+    let pageToken: string | undefined;
+
     try {
-      const url = `${this.httpUrl}/v1/info`;
-      const response = await fetch(url);
+      for (let page = 0; page < maxPages; page++) {
+        const query: Record<string, string> = {
+          fid: String(fid),
+          link_type: "follow",
+          pageSize: "1000",
+        };
+        if (pageToken) query.pageToken = pageToken;
+
+        const page = await this.request(
+          "linksByFid",
+          query,
+          hubMessagesPageSchema
+        );
+
+        for (const message of this.parseMessages(page, "linksByFid")) {
+          const targetFid = message.data.linkBody?.targetFid;
+          if (targetFid) following.push(targetFid);
+        }
 
-      if (!response.ok) {
-        return null;
+        pageToken = page.nextPageToken || undefined;
+        if (!pageToken) break;
       }
+    } catch (error) {
+      this.handleError(error, "Error getting following");
+    }
+
+    return following;
+  }
 
-      return (await response.json()) as Record<string, unknown>;
+  /**
+   * Check hub health and get info
+   */
+  async getInfo(): Promise<HubInfo | null> {
+    try {
+      return await this.request("info", {}, hubInfoSchema);
     } catch (error) {
-      logger.error("Error getting hub info:", String(error));
+      this.handleError(error, "Error getting hub info");
       return null;
     }
   }
 
+  // ==========================================================================
+  // REQUESTS AND PARSING
+  // ==========================================================================
+
+  /**
+   * GET a hub endpoint and validate the JSON body
+   *
+   * Throws HubNetworkError, HubHttpError (HubNotFoundError for 404) or
+   * HubResponseError.
+   */
+  private async request<T>(
+    endpoint: string,
+    params: Record<string, string>,
+    schema: z.ZodType<T>
+  ): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+
+    let response: Response;
+    try {
+      response = await this.http.get(
+        `${this.httpUrl}/v1/${endpoint}${query ? `?${query}` : ""}`
+      );
+    } catch (error) {
+      throw new HubNetworkError(endpoint, error);
+    }
+
+    if (response.status === 404) throw new HubNotFoundError(endpoint);
+    if (!response.ok) throw new HubHttpError(endpoint, response.status);
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (error) {
+      throw new HubResponseError(endpoint, [`(root): ${String(error)}`]);
+    }
+
+    return parseHubResponse(schema, body, endpoint);
+  }
+
+  /**
+   * Rethrow a read failure in strict mode, otherwise log it (not-found
+   * isn't logged, it's an answer) so the caller can return its empty value
+   */
+  private handleError(error: unknown, context: string): void {
+    if (this.options.throwOnError) throw error;
+    if (!(error instanceof HubNotFoundError)) {
+      logger.error(`${context}:`, String(error));
+    }
+  }
+
+  /**
+   * Validate the messages of a page, skipping (and logging) malformed ones
+   */
+  private parseMessages(page: HubMessagesPage, endpoint: string): HubMessage[] {
+    const messages: HubMessage[] = [];
+
+    for (const raw of page.messages) {
+      try {
+        messages.push(parseHubResponse(hubMessageSchema, raw, endpoint));
+      } catch (error) {
+        logger.warn("Skipping malformed message:", String(error));
+      }
+    }
+
+    return messages;
+  }
+
   /**
-   * Parse a hub message into our cast format
+   * Convert a validated cast message into our cast format
    *
    * Note: Timestamps returned are Farcaster timestamps (seconds since Jan 1, 2021),
    * NOT Unix timestamps. Use farcasterToUnix() to convert.
    */
-  private parseCastMessage(msg: Record<string, unknown>): HubCast {
-    const msgData = msg.data as Record<string, unknown> | undefined;
-    const castData =
-      (msgData?.castAddBody as Record<string, unknown>) || {};
-    const parentCastId = castData.parentCastId as
-      | Record<string, unknown>
-      | undefined;
-    const embeds = (castData.embeds as Array<Record<string, unknown>>) || [];
+  private parseCastMessage(message: HubMessage, endpoint: string): HubCast {
+    const { data } = message;
+    const body = data.castAddBody;
+    if (!body) {
+      throw new HubResponseError(endpoint, [
+        "data.castAddBody: missing on a CAST_ADD message",
+      ]);
+    }
 
     return {
-      hash: msg.hash as string,
-      fid: (msgData?.fid as number) || 0,
-      text: (castData.text as string) || "",
-      timestamp: (msgData?.timestamp as number) || 0,
-      parentHash: (parentCastId?.hash as string) || null,
-      parentFid: (parentCastId?.fid as number) || null,
-      parentUrl: (castData.parentUrl as string) || null,
-      mentions: (castData.mentions as number[]) || [],
-      mentionsPositions: (castData.mentionsPositions as number[]) || [],
-      embeds: embeds
-        .map((e) => e.url as string)
-        .filter(Boolean),
+      hash: message.hash,
+      fid: data.fid,
+      text: body.text,
+      timestamp: data.timestamp,
+      parentHash: body.parentCastId?.hash ?? null,
+      parentFid: body.parentCastId?.fid ?? null,
+      parentUrl: body.parentUrl ?? null,
+      mentions: body.mentions,
+      mentionsPositions: body.mentionsPositions,
+      embeds: [
+        ...body.embeds.map(parseEmbed),
+        ...body.embedsDeprecated.map((url): HubEmbed => ({ type: "url", url })),
+      ].filter((e): e is HubEmbed => e !== null),
+      // Filled in by withUsers()
+      renderedText: body.text,
+      mentionedUsers: [],
     };
   }
 
   /**
-   * Convert channel name to Farcaster channel URL
+   * Resolve the author and mentioned users (through the user cache) and
+   * render the text with @usernames
    */
-  getChannelUrl(channel: string): string {
-    const channelUrls: Record<string, string> = {
-      governance: "https://warpcast.com/~/channel/governance",
-      daos: "https://warpcast.com/~/channel/daos",
-      ethereum: "https://warpcast.com/~/channel/ethereum",
-      farcaster: "https://warpcast.com/~/channel/farcaster",
-      optimism: "https://warpcast.com/~/channel/optimism",
-      base: "https://warpcast.com/~/channel/base",
-      arbitrum: "https://warpcast.com/~/channel/arbitrum",
-      defi: "https://warpcast.com/~/channel/defi",
-      politics: "https://warpcast.com/~/channel/politics",
-      dev: "https://warpcast.com/~/channel/dev",
-    };
+  private async withUsers(cast: HubCast): Promise<CastWithAuthor> {
+    const author = await this.getUser(cast.fid);
+
+    const mentionedUsers: HubUser[] = [];
+    for (const fid of new Set(cast.mentions)) {
+      mentionedUsers.push(
+        fid === author.fid ? author : await this.getUser(fid)
+      );
+    }
 
-    return (
-      channelUrls[channel.toLowerCase()] ||
-      `https://warpcast.com/~/channel/${channel}`
+    const usernames = new Map(
+      mentionedUsers.map((user) => [user.fid, user.username])
     );
+
+    return {
+      ...cast,
+      renderedText: renderCastText(cast, usernames),
+      mentionedUsers,
+      author,
+    };
+  }
+
+  /**
+   * Convert a channel id to its conventional Warpcast parent URL
+   *
+   * Full URLs are returned unchanged. This doesn't check the hub and is wrong
+   * for channels with legacy parent URLs - use ChannelRegistry to resolve
+   * and validate channels.
+   */
+  getChannelUrl(channel: string): string {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(channel)) return channel;
+    return `https://warpcast.com/~/channel/${channel.replace(/^\//, "")}`;
   }
 
   /**
@@ -376,6 +954,9 @@ export class HubApiClient {
   }
 }
 
-export function createHubApiClient(hubHttpUrl: string): HubApiClient {
-  return new HubApiClient(hubHttpUrl);
+export function createHubApiClient(
+  hubHttpUrl: string,
+  options: HubApiClientOptions = {}
+): HubApiClient {
+  return new HubApiClient(hubHttpUrl, options);
 }
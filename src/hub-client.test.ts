@@ -0,0 +1,302 @@
+import {
+  getInsecureHubRpcClient,
+  HubError,
+  HubErrorCode,
+  HubRpcClient,
+  Message,
+  MessageType,
+  ReactionType,
+  UserDataType,
+} from "@farcaster/hub-nodejs";
+import { bytesToHex } from "@noble/hashes/utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DirectHubClient, HubClientConfig } from "./hub-client";
+import { getSignerPublicKey } from "./signer";
+
+vi.mock("@farcaster/hub-nodejs", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@farcaster/hub-nodejs")>()),
+  getInsecureHubRpcClient: vi.fn(),
+}));
+
+const FID = 100;
+const PRIVATE_KEY = `0x${"01".repeat(32)}`;
+const HASH = `0x${"3c".repeat(20)}`;
+
+/**
+ * Stand-ins for HubResults
+ */
+function accepted(message: Message) {
+  return { isOk: (): boolean => true, value: message };
+}
+
+function failure(errCode: HubErrorCode, message: string) {
+  return { isOk: (): boolean => false, error: new HubError(errCode, message) };
+}
+
+/**
+ * Client whose connections reject submits with `failures`, in order, then
+ * accept them
+ */
+function hub(
+  failures: ReturnType<typeof failure>[] = [],
+  config: Partial<HubClientConfig> = {}
+) {
+  const submitted: Message[] = [];
+  const connections: Array<{ $: { close: () => void } }> = [];
+
+  vi.mocked(getInsecureHubRpcClient).mockImplementation(() => {
+    const connection = {
+      submitMessage: vi.fn(async (message: Message) => {
+        submitted.push(message);
+        return failures.shift() ?? accepted(message);
+      }),
+      $: { close: vi.fn() },
+    };
+    connections.push(connection);
+    return connection as unknown as HubRpcClient;
+  });
+
+  const client = new DirectHubClient({
+    hubUrl: "http://hub.test:2283",
+    fid: FID,
+    privateKey: PRIVATE_KEY,
+    reconnectBaseDelay: 0,
+    healthCheckInterval: 0,
+    ...config,
+  });
+  return { client, submitted, connections };
+}
+
+describe("DirectHubClient", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("connection", () => {
+    it("connects on first use and reuses the connection", async () => {
+      const { client, connections } = hub();
+      const changes = vi.fn();
+      client.on("stateChange", changes);
+      expect(client.getConnectionState()).toBe("idle");
+
+      await client.likeCast(3, HASH);
+      await client.recastCast(3, HASH);
+
+      expect(getInsecureHubRpcClient).toHaveBeenCalledWith("hub.test:2283");
+      expect(connections).toHaveLength(1);
+      expect(changes.mock.calls).toEqual([
+        ["connecting", "idle"],
+        ["ready", "connecting"],
+      ]);
+    });
+
+    it("retries a transient error on a fresh connection", async () => {
+      const { client, submitted, connections } = hub([
+        failure("unavailable", "hub restarting"),
+      ]);
+
+      const message = await client.likeCast(3, HASH);
+
+      expect(connections).toHaveLength(2);
+      expect(connections[0].$.close).toHaveBeenCalled();
+      expect(submitted).toEqual([message, message]);
+      expect(client.getConnectionState()).toBe("ready");
+    });
+
+    it("treats a duplicate after a retry as submitted", async () => {
+      const { client, submitted } = hub([
+        failure("unavailable.network_failure", "deadline exceeded"),
+        failure("bad_request.duplicate", "message has already been merged"),
+      ]);
+
+      expect(await client.likeCast(3, HASH)).toBe(submitted[0]);
+    });
+
+    it("gives up once the retries are used", async () => {
+      const { client, submitted } = hub(
+        [
+          failure("unavailable", "hub restarting"),
+          failure("unavailable", "hub restarting"),
+        ],
+        { maxRetries: 1 }
+      );
+
+      await expect(client.likeCast(3, HASH)).rejects.toThrow(
+        "Failed to submit reaction: hub restarting"
+      );
+      expect(submitted).toHaveLength(2);
+      expect(client.getConnectionState()).toBe("reconnecting");
+    });
+
+    it("doesn't retry a message the hub rejects", async () => {
+      const { client, submitted } = hub([
+        failure("bad_request.validation_failure", "invalid signer"),
+      ]);
+
+      await expect(client.likeCast(3, HASH)).rejects.toThrow(
+        "Failed to submit reaction: invalid signer"
+      );
+      expect(submitted).toHaveLength(1);
+    });
+
+    it("refuses calls once closed", async () => {
+      const { client, connections } = hub();
+      await client.likeCast(3, HASH);
+
+      client.close();
+
+      expect(connections[0].$.close).toHaveBeenCalled();
+      expect(client.getConnectionState()).toBe("closed");
+      await expect(client.likeCast(3, HASH)).rejects.toThrow(
+        "Hub client is closed"
+      );
+    });
+  });
+
+  describe("writes", () => {
+    it("deletes a cast by hash", async () => {
+      const { client } = hub();
+
+      const { data } = await client.deleteCast(HASH);
+
+      expect(data?.type).toBe(MessageType.CAST_REMOVE);
+      expect(data?.fid).toBe(FID);
+      expect(`0x${bytesToHex(data!.castRemoveBody!.targetHash)}`).toBe(HASH);
+    });
+
+    it("removes likes and recasts", async () => {
+      const { client } = hub();
+
+      const unlike = await client.unlikeCast(3, HASH);
+      const unrecast = await client.unrecastCast(3, HASH);
+
+      expect(unlike.data?.type).toBe(MessageType.REACTION_REMOVE);
+      expect(unlike.data?.reactionBody?.type).toBe(ReactionType.LIKE);
+      expect(unrecast.data?.reactionBody).toMatchObject({
+        type: ReactionType.RECAST,
+        targetCastId: { fid: 3 },
+      });
+    });
+
+    it("follows and unfollows", async () => {
+      const { client } = hub();
+
+      const follow = await client.followUser(7);
+      const unfollow = await client.unfollowUser(7);
+
+      expect(follow.data?.type).toBe(MessageType.LINK_ADD);
+      expect(unfollow.data?.type).toBe(MessageType.LINK_REMOVE);
+      expect(unfollow.data?.linkBody).toMatchObject({
+        type: "follow",
+        targetFid: 7,
+      });
+    });
+
+    it("updates only the given profile fields", async () => {
+      const { client, submitted } = hub();
+
+      const messages = await client.updateProfile({
+        displayName: "Agent",
+        url: "https://agent.test",
+      });
+
+      expect(messages).toEqual(submitted);
+      expect(messages.map(({ data }) => data?.userDataBody)).toEqual([
+        { type: UserDataType.DISPLAY, value: "Agent" },
+        { type: UserDataType.URL, value: "https://agent.test" },
+      ]);
+    });
+  });
+
+  describe("embeds", () => {
+    const QUOTED = new Uint8Array(20).fill(0x3c);
+
+    it("merges links and quoted casts into the embed list", async () => {
+      const { client } = hub();
+
+      const { data } = await client.publishCast({
+        text: "worth a read",
+        embeds: [{ url: "https://example.com/post" }],
+        embedsCastIds: [{ fid: 3, hash: QUOTED }],
+      });
+
+      expect(data?.castAddBody?.embeds).toEqual([
+        { url: "https://example.com/post" },
+        { castId: { fid: 3, hash: QUOTED } },
+      ]);
+    });
+
+    it("quotes a cast by hash", async () => {
+      const { client } = hub();
+
+      const { data } = await client.publishQuote("so true", 3, HASH);
+
+      expect(data?.castAddBody?.embeds).toEqual([
+        { castId: { fid: 3, hash: QUOTED } },
+      ]);
+    });
+
+    it("rejects invalid embeds before submitting", async () => {
+      const { client, submitted } = hub();
+      const url = (n: number) => ({ url: `https://example.com/${n}` });
+
+      await expect(
+        client.publishCast({ text: "a", embeds: [url(1), url(2), url(3)] })
+      ).rejects.toThrow("Casts can have at most 2 embeds, got 3");
+      await expect(
+        client.publishCast({ text: "a", embeds: [{ url: "ftp://x.test" }] })
+      ).rejects.toThrow("Embed URL must be http(s): ftp://x.test");
+      await expect(
+        client.publishCast({
+          text: "a",
+          embeds: [{ url: `https://example.com/${"a".repeat(256)}` }],
+        })
+      ).rejects.toThrow("over the 256 byte limit");
+      await expect(
+        client.publishCast({
+          text: "a",
+          embedsCastIds: [{ fid: 3, hash: new Uint8Array(4) }],
+        })
+      ).rejects.toThrow("Invalid quoted cast hash: expected 20 bytes, got 4");
+      expect(submitted).toHaveLength(0);
+    });
+  });
+
+  describe("as", () => {
+    const OTHER_FID = 200;
+    const OTHER_KEY = `0x${"02".repeat(32)}`;
+
+    it("signs as another managed FID over the same connection", async () => {
+      const { client, connections } = hub([], {
+        signers: { [OTHER_FID]: OTHER_KEY },
+      });
+
+      const view = client.as(OTHER_FID);
+      const { data, signer } = await view.likeCast(3, HASH);
+      await client.likeCast(3, HASH);
+      view.close();
+
+      expect(client.getManagedFids()).toEqual([FID, OTHER_FID]);
+      expect(client.as(OTHER_FID)).toBe(view);
+      expect(client.as(FID)).toBe(client);
+      expect(data?.fid).toBe(OTHER_FID);
+      expect(`0x${bytesToHex(signer)}`).toBe(
+        await getSignerPublicKey(OTHER_KEY)
+      );
+      expect(connections).toHaveLength(1);
+      expect(client.getConnectionState()).toBe("ready");
+    });
+
+    it("refuses an FID without a signer", () => {
+      const { client } = hub();
+
+      expect(() => client.as(OTHER_FID)).toThrow(
+        "No signer configured for FID 200"
+      );
+    });
+  });
+});
@@ -2,33 +2,90 @@
  * Direct Farcaster Hub gRPC Client
  *
  * Handles write operations to a local Farcaster hub (Snapchain/Hubble):
- * - Publishing casts
- * - Adding reactions (likes, recasts)
+ * - Publishing and deleting casts, and splitting long text into threads
+ * - Adding and removing reactions (likes, recasts)
  * - Replying to casts
+ * - Following and unfollowing users
+ * - Updating the profile (display name, bio, pfp, url)
+ * - Subscribing to the hub event stream
+ * - Checking that the signer key is registered for the FID
+ *
+ * Keeps one long-lived gRPC connection, opened lazily on first use. Transient
+ * hub errors (unavailable, deadline exceeded) drop the connection and retry
+ * with exponential backoff, so a hub restart doesn't lose queued actions.
+ * switchHub() moves the connection to another hub (see HubMonitor).
  *
  * Uses @farcaster/hub-nodejs for gRPC communication.
  * No external API dependencies - fully self-hosted.
  */
 
+import { EventEmitter } from "node:events";
 import {
   getSSLHubRpcClient,
   getInsecureHubRpcClient,
   makeCastAdd,
+  makeCastRemove,
   makeReactionAdd,
+  makeReactionRemove,
+  makeLinkAdd,
+  makeLinkRemove,
+  makeUserDataAdd,
   NobleEd25519Signer,
   FarcasterNetwork,
   CastAddBody,
+  Embed,
+  HubError,
+  HubEvent,
+  HubEventType,
+  HubInfoResponse,
+  HubResult,
+  HubRpcClient,
   Message,
+  Metadata,
+  OnChainEvent,
   ReactionType,
+  SignerEventType,
+  StorageLimitsResponse,
+  UserDataType,
 } from "@farcaster/hub-nodejs";
-import { hexToBytes } from "@noble/hashes/utils";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  MAX_CAST_BYTES,
+  THREAD_SUFFIX_BYTES,
+  splitCastText,
+  threadPartSuffix,
+  utf8ByteLength,
+} from "./cast-text";
+import { backoffDelay } from "./backoff";
+
+const logger = {
+  info: (...args: unknown[]) => console.log("[DirectHubClient]", ...args),
+  error: (...args: unknown[]) => console.error("[DirectHubClient]", ...args),
+  warn: (...args: unknown[]) => console.warn("[DirectHubClient]", ...args),
+};
 
 export interface HubClientConfig {
   hubUrl: string;
   fid: number;
   privateKey: string;
   network?: FarcasterNetwork;
+  /**
+   * TLS for hubUrl (default: https URLs only). Hubs switched to later go
+   * by their own scheme.
+   */
   ssl?: boolean;
+  /** Deadline for each gRPC call in ms (default 10s) */
+  requestTimeout?: number;
+  /** Retries for idempotent calls on transient errors (default 3) */
+  maxRetries?: number;
+  /** First reconnect delay in ms, doubled per attempt (default 500ms) */
+  reconnectBaseDelay?: number;
+  /** Upper bound for the reconnect delay in ms (default 30s) */
+  reconnectMaxDelay?: number;
+  /** Background health check interval in ms, 0 to disable (default 60s) */
+  healthCheckInterval?: number;
+  /** Additional accounts this client can act as: FID -> signer private key */
+  signers?: Record<number, string>;
 }
 
 export interface CastOptions {
@@ -38,117 +95,660 @@ export interface CastOptions {
     hash: Uint8Array;
   };
   parentUrl?: string;
+  /** Links: pages, images, videos, frames */
   embeds?: Array<{ url: string }>;
+  /** Quoted casts */
   embedsCastIds?: Array<{ fid: number; hash: Uint8Array }>;
   mentions?: number[];
   mentionsPositions?: number[];
 }
 
+/**
+ * Maximum number of embeds (links + quoted casts) per cast (protocol limit)
+ */
+export const MAX_CAST_EMBEDS = 2;
+
+/**
+ * Maximum size of an embed URL in bytes (protocol limit)
+ */
+export const MAX_EMBED_URL_BYTES = 256;
+
+/**
+ * One cast of a thread: the cast fields other than its parent
+ */
+export type ThreadPart = Omit<CastOptions, "parentCastId" | "parentUrl">;
+
+export interface PublishThreadOptions {
+  /** Append " (1/n)" to each part (default false) */
+  numbered?: boolean;
+  /** Reply to this cast with the first part */
+  parentFid?: number;
+  parentHash?: string;
+  /** Or post the first part in this channel */
+  parentUrl?: string;
+}
+
+export type SignerStatus =
+  /** Key is registered for the FID */
+  | "active"
+  /** FID has signers, but not this key */
+  | "not_registered"
+  /** FID has no signers at all, usually a wrong FID */
+  | "no_signers"
+  /** The hub could not be asked */
+  | "unknown";
+
+export interface SignerCheck {
+  fid: number;
+  /** Public key derived from the configured private key (0x hex) */
+  publicKey: string;
+  status: SignerStatus;
+  /** What is wrong and how to fix it */
+  diagnosis: string;
+  /** Active signer keys the hub has for the FID */
+  registeredKeys: string[];
+}
+
 export interface ReactionOptions {
   targetFid: number;
   targetHash: Uint8Array;
   type: "like" | "recast";
 }
 
+export interface ProfileUpdate {
+  displayName?: string;
+  bio?: string;
+  pfpUrl?: string;
+  url?: string;
+}
+
+export interface SubscribeOptions {
+  /** Resume from this event id (inclusive); omit to start from the live tip */
+  fromId?: number;
+  eventTypes?: HubEventType[];
+  onEvent: (event: HubEvent) => void;
+  /** Called once when the stream fails or ends */
+  onClose?: (error?: Error) => void;
+}
+
+export interface EventSubscription {
+  close(): void;
+}
+
+/**
+ * Connection lifecycle, emitted as "stateChange" (state, previousState)
+ */
+export type ConnectionState =
+  | "idle"
+  | "connecting"
+  | "ready"
+  | "reconnecting"
+  | "closed";
+
+const TRANSIENT_ERROR_PATTERN =
+  /deadline|unavailable|no connection established|ECONNREFUSED|ECONNRESET/i;
+
+/**
+ * Whether a hub error is worth retrying on a fresh connection
+ */
+function isTransientError(error: HubError): boolean {
+  if (error.errCode?.startsWith("unavailable")) return true;
+  return TRANSIENT_ERROR_PATTERN.test(error.message);
+}
+
+function hashToBytes(hash: string): Uint8Array {
+  return hexToBytes(hash.startsWith("0x") ? hash.slice(2) : hash);
+}
+
+/**
+ * Validate a cast's link and quote embeds and merge them into the
+ * protocol's single embed list
+ */
+function buildEmbeds(options: CastOptions): Embed[] {
+  const urls = options.embeds ?? [];
+  const castIds = options.embedsCastIds ?? [];
+
+  if (urls.length + castIds.length > MAX_CAST_EMBEDS) {
+    throw new Error(
+      `Casts can have at most ${MAX_CAST_EMBEDS} embeds, got ${urls.length + castIds.length}`
+    );
+  }
+
+  for (const { url } of urls) {
+    let protocol: string;
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      throw new Error(`Invalid embed URL: ${url}`);
+    }
+    if (protocol !== "https:" && protocol !== "http:") {
+      throw new Error(`Embed URL must be http(s): ${url}`);
+    }
+    if (utf8ByteLength(url) > MAX_EMBED_URL_BYTES) {
+      throw new Error(
+        `Embed URL is over the ${MAX_EMBED_URL_BYTES} byte limit: ${url.slice(0, 50)}...`
+      );
+    }
+  }
+
+  for (const castId of castIds) {
+    if (!Number.isInteger(castId.fid) || castId.fid <= 0) {
+      throw new Error(`Invalid quoted cast fid: ${castId.fid}`);
+    }
+    if (castId.hash.length !== 20) {
+      throw new Error(
+        `Invalid quoted cast hash: expected 20 bytes, got ${castId.hash.length}`
+      );
+    }
+  }
+
+  return [
+    ...urls.map(({ url }) => ({ url })),
+    ...castIds.map((castId) => ({ castId })),
+  ];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * host:port for a hub URL (scheme optional, default port 2283)
+ */
+function hubAddress(hubUrl: string): string {
+  const url = new URL(hubUrl.includes("://") ? hubUrl : `https://${hubUrl}`);
+  const host = url.hostname;
+  const port = parseInt(url.port) || 2283;
+  return `${host}:${port}`;
+}
+
+function createRpcClient(hubUrl: string, ssl: boolean): HubRpcClient {
+  const address = hubAddress(hubUrl);
+
+  if (ssl) {
+    return getSSLHubRpcClient(address);
+  } else {
+    return getInsecureHubRpcClient(address);
+  }
+}
+
+/**
+ * Ask a hub for its info over a short-lived connection
+ *
+ * Used to probe hubs other than the one a DirectHubClient is connected to.
+ */
+export async function getHubRpcInfo(
+  hubUrl: string,
+  options: { ssl?: boolean; timeout?: number } = {}
+): Promise<HubInfoResponse> {
+  const client = createRpcClient(
+    hubUrl,
+    options.ssl ?? hubUrl.startsWith("https")
+  );
+
+  try {
+    const result = await client.getInfo({ dbStats: true }, new Metadata(), {
+      deadline: Date.now() + (options.timeout ?? 10000),
+    });
+    if (result.isErr()) {
+      throw new Error(`Hub ${hubUrl} info failed: ${result.error.message}`);
+    }
+    return result.value;
+  } finally {
+    client.$.close();
+  }
+}
+
 /**
  * Direct Hub Client for Farcaster operations
  *
  * Communicates directly with a Farcaster hub via gRPC.
  * Requires a valid FID and corresponding Ed25519 signer private key.
  */
-export class DirectHubClient {
+export class DirectHubClient extends EventEmitter {
   private hubUrl: string;
   private fid: number;
   private signer: NobleEd25519Signer;
   private network: FarcasterNetwork;
   private ssl: boolean;
+  private requestTimeout: number;
+  private maxRetries: number;
+  private reconnectBaseDelay: number;
+  private reconnectMaxDelay: number;
+  private healthCheckInterval: number;
+
+  private client: HubRpcClient | null = null;
+  private state: ConnectionState = "idle";
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  // Multi-account: views created by as() share the root's connection
+  private config: HubClientConfig;
+  private root: DirectHubClient | null = null;
+  private views: Map<number, DirectHubClient> = new Map();
 
   constructor(config: HubClientConfig) {
+    super();
+    this.config = config;
     this.hubUrl = config.hubUrl;
     this.fid = config.fid;
     this.network = config.network ?? FarcasterNetwork.MAINNET;
     this.ssl = config.ssl ?? config.hubUrl.startsWith("https");
+    this.requestTimeout = config.requestTimeout ?? 10000;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.reconnectBaseDelay = config.reconnectBaseDelay ?? 500;
+    this.reconnectMaxDelay = config.reconnectMaxDelay ?? 30000;
+    this.healthCheckInterval = config.healthCheckInterval ?? 60000;
 
     const keyHex = config.privateKey.startsWith("0x")
       ? config.privateKey.slice(2)
       : config.privateKey;
     const keyBytes = hexToBytes(keyHex);
+    if (keyBytes.length !== 32) {
+      throw new Error(
+        `Signer private key for FID ${config.fid} must be 32 bytes, got ${keyBytes.length}`
+      );
+    }
 
     this.signer = new NobleEd25519Signer(keyBytes);
   }
 
-  private getClient() {
-    const url = new URL(
-      this.hubUrl.includes("://") ? this.hubUrl : `https://${this.hubUrl}`
-    );
-    const host = url.hostname;
-    const port = parseInt(url.port) || 2283;
-    const address = `${host}:${port}`;
-
-    if (this.ssl) {
-      return getSSLHubRpcClient(address);
-    } else {
-      return getInsecureHubRpcClient(address);
+  // ==========================================================================
+  // ACCOUNTS
+  // ==========================================================================
+
+  getFid(): number {
+    return this.fid;
+  }
+
+  /**
+   * FIDs this client can sign for: the primary one first, then `signers`
+   */
+  getManagedFids(): number[] {
+    const root = this.root ?? this;
+    const extra = Object.keys(root.config.signers ?? {})
+      .map(Number)
+      .filter((fid) => fid !== root.fid);
+    return [root.fid, ...extra];
+  }
+
+  /**
+   * A client that signs as another managed FID over the same connection
+   *
+   * Views are cached, and closing a view is a no-op; close the root client
+   * to shut the connection down.
+   */
+  as(fid: number): DirectHubClient {
+    const root = this.root ?? this;
+    if (fid === root.fid) return root;
+
+    let view = root.views.get(fid);
+    if (!view) {
+      const privateKey = root.config.signers?.[fid];
+      if (!privateKey) {
+        throw new Error(`No signer configured for FID ${fid}`);
+      }
+      view = new DirectHubClient({ ...root.config, fid, privateKey });
+      view.root = root;
+      root.views.set(fid, view);
     }
+
+    return view;
   }
 
+  // ==========================================================================
+  // SIGNER
+  // ==========================================================================
+
   /**
-   * Publish a new cast to the Farcaster network
+   * Public key of the signer, as 0x-prefixed hex
    */
-  async publishCast(options: CastOptions): Promise<Message> {
-    const client = this.getClient();
+  async getSignerPublicKey(): Promise<string> {
+    const result = await this.signer.getSignerKey();
+    if (result.isErr()) {
+      throw new Error(
+        `Failed to derive signer public key: ${result.error.message}`
+      );
+    }
+    return `0x${bytesToHex(result.value)}`;
+  }
+
+  /**
+   * Check that the signer key is registered on-chain for this FID
+   *
+   * Never throws: when the hub can't be reached the status is "unknown".
+   */
+  async checkSigner(): Promise<SignerCheck> {
+    const fid = this.fid;
+    const publicKey = await this.getSignerPublicKey();
+    const check = (
+      status: SignerStatus,
+      diagnosis: string,
+      registeredKeys: string[] = []
+    ): SignerCheck => ({ fid, publicKey, status, diagnosis, registeredKeys });
 
     try {
-      const castBody: CastAddBody = {
-        text: options.text,
-        embeds: options.embeds ?? [],
-        embedsDeprecated: [],
-        mentions: options.mentions ?? [],
-        mentionsPositions: options.mentionsPositions ?? [],
-        type: 0,
-      };
-
-      if (options.parentCastId) {
-        castBody.parentCastId = options.parentCastId;
-      } else if (options.parentUrl) {
-        castBody.parentUrl = options.parentUrl;
+      const event = await this.withRetry<OnChainEvent | null>(
+        "look up signer",
+        (client) =>
+          client.getOnChainSigner(
+            { fid, signer: hexToBytes(publicKey.slice(2)) },
+            this.callMetadata(),
+            this.callOptions()
+          ),
+        (error) => (error.errCode === "not_found" ? null : undefined)
+      );
+      if (event?.signerEventBody?.eventType === SignerEventType.ADD) {
+        return check(
+          "active",
+          `Signer ${publicKey} is registered for FID ${fid}`,
+          [publicKey]
+        );
       }
 
-      const castResult = await makeCastAdd(
-        castBody,
-        { fid: this.fid, network: this.network },
-        this.signer
+      const response = await this.withRetry("list signers", (client) =>
+        client.getOnChainSignersByFid(
+          { fid },
+          this.callMetadata(),
+          this.callOptions()
+        )
+      );
+      const registeredKeys = response.events.flatMap((signerEvent) =>
+        signerEvent.signerEventBody?.eventType === SignerEventType.ADD
+          ? [`0x${bytesToHex(signerEvent.signerEventBody.key)}`]
+          : []
       );
 
-      if (castResult.isErr()) {
-        throw new Error(`Failed to create cast: ${castResult.error.message}`);
+      if (registeredKeys.length === 0) {
+        return check(
+          "no_signers",
+          `FID ${fid} has no active signers on the hub. Check that the FID is right and that the hub has synced it, then register ${publicKey} for it.`
+        );
+      }
+
+      return check(
+        "not_registered",
+        `Signer ${publicKey} is not registered for FID ${fid} (wrong key, a key for another FID, or a revoked key). Active signers: ${registeredKeys.join(", ")}. Fix the private key or register this key.`,
+        registeredKeys
+      );
+    } catch (error) {
+      return check(
+        "unknown",
+        `Could not verify the signer for FID ${fid}: ${String(error)}`
+      );
+    }
+  }
+
+  // ==========================================================================
+  // CONNECTION
+  // ==========================================================================
+
+  private createRpcClient(): HubRpcClient {
+    return createRpcClient(this.hubUrl, this.ssl);
+  }
+
+  /**
+   * Close the underlying gRPC channel
+   *
+   * NOTE: the promisified client's own close() does not close the channel,
+   * so we go through the raw client.
+   */
+  private closeRpcClient(client: HubRpcClient): void {
+    client.$.close();
+  }
+
+  /**
+   * Get the shared client, connecting lazily on first use
+   */
+  private getClient(): HubRpcClient {
+    if (this.root) return this.root.getClient();
+    if (this.state === "closed") {
+      throw new Error("Hub client is closed");
+    }
+
+    if (!this.client) {
+      this.client = this.createRpcClient();
+      if (this.state === "idle") this.setState("connecting");
+      this.startHealthChecks();
+    }
+
+    return this.client;
+  }
+
+  /**
+   * Drop the current connection so the next call opens a fresh one
+   */
+  private resetConnection(): void {
+    if (this.root) return this.root.resetConnection();
+    if (this.client) {
+      this.closeRpcClient(this.client);
+      this.client = null;
+    }
+    if (this.state !== "closed") this.setState("reconnecting");
+  }
+
+  private setState(next: ConnectionState): void {
+    if (this.root) return this.root.setState(next);
+    if (next === this.state) return;
+    const previous = this.state;
+    this.state = next;
+    this.emit("stateChange", next, previous);
+  }
+
+  getConnectionState(): ConnectionState {
+    if (this.root) return this.root.getConnectionState();
+    return this.state;
+  }
+
+  /**
+   * The hub currently used for calls
+   */
+  getHubUrl(): string {
+    if (this.root) return this.root.getHubUrl();
+    return this.hubUrl;
+  }
+
+  /**
+   * Move the connection to another hub, emitted as "hubChange" (hubUrl,
+   * previousHubUrl)
+   *
+   * Event subscriptions have their own connections and stay on the old
+   * hub: close them and resubscribe on "hubChange". Event ids are per hub,
+   * so resubscribe without a fromId.
+   */
+  switchHub(hubUrl: string): void {
+    if (this.root) return this.root.switchHub(hubUrl);
+    if (hubUrl === this.hubUrl || this.state === "closed") return;
+
+    const previous = this.hubUrl;
+    this.hubUrl = hubUrl;
+    // config.ssl describes the configured hub only; others go by scheme
+    this.ssl =
+      hubUrl === this.config.hubUrl
+        ? (this.config.ssl ?? hubUrl.startsWith("https"))
+        : hubUrl.startsWith("https");
+    this.resetConnection();
+    this.emit("hubChange", hubUrl, previous);
+  }
+
+  private dataOptions() {
+    return { fid: this.fid, network: this.network };
+  }
+
+  private callMetadata() {
+    return new Metadata();
+  }
+
+  private callOptions() {
+    return { deadline: Date.now() + this.requestTimeout };
+  }
+
+  /**
+   * Run an idempotent hub call, reconnecting and retrying on transient errors
+   *
+   * `recover` may turn an error into a successful value (e.g. a duplicate
+   * submit after a retry).
+   */
+  private async withRetry<T>(
+    operation: string,
+    call: (client: HubRpcClient) => Promise<HubResult<T>>,
+    recover?: (error: HubError, attempt: number) => T | undefined
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const result = await call(this.getClient());
+
+      if (result.isOk()) {
+        this.setState("ready");
+        return result.value;
       }
 
-      const submitResult = await client.submitMessage(castResult.value);
+      const error = result.error;
+      const recovered = recover?.(error, attempt);
+      if (recovered !== undefined) {
+        this.setState("ready");
+        return recovered;
+      }
 
-      if (submitResult.isErr()) {
-        throw new Error(`Failed to submit cast: ${submitResult.error.message}`);
+      if (!isTransientError(error) || attempt >= this.maxRetries) {
+        if (isTransientError(error)) this.resetConnection();
+        throw new Error(`Failed to ${operation}: ${error.message}`);
       }
 
-      return submitResult.value;
-    } finally {
-      client.close();
+      const delay = backoffDelay(
+        attempt,
+        this.reconnectBaseDelay,
+        this.reconnectMaxDelay
+      );
+      logger.warn(
+        `${operation} failed (${error.message}), retrying in ${Math.round(delay)}ms`
+      );
+      this.resetConnection();
+      await sleep(delay);
     }
   }
 
+  /**
+   * Submit a signed message
+   *
+   * Signed messages are idempotent, so retries are safe. If an earlier attempt
+   * landed before timing out, the hub reports a duplicate and we return the
+   * message we signed.
+   */
+  private async submit(message: Message, kind: string): Promise<Message> {
+    return this.withRetry(
+      `submit ${kind}`,
+      (client) =>
+        client.submitMessage(message, this.callMetadata(), this.callOptions()),
+      (error, attempt) =>
+        attempt > 0 && error.errCode === "bad_request.duplicate"
+          ? message
+          : undefined
+    );
+  }
+
+  /**
+   * Check that the hub answers; resets the connection if it doesn't
+   */
+  async checkHealth(): Promise<boolean> {
+    if (this.root) return this.root.checkHealth();
+    if (this.state === "closed") return false;
+
+    const result = await this.getClient().getInfo(
+      { dbStats: false },
+      this.callMetadata(),
+      this.callOptions()
+    );
+
+    if (result.isOk()) {
+      this.setState("ready");
+      return true;
+    }
+
+    logger.warn("Health check failed:", result.error.message);
+    this.resetConnection();
+    return false;
+  }
+
+  private startHealthChecks(): void {
+    if (this.healthTimer || this.healthCheckInterval <= 0) return;
+
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch(() => this.resetConnection());
+    }, this.healthCheckInterval);
+    this.healthTimer.unref();
+  }
+
+  /**
+   * Close the connection and stop health checks
+   */
+  close(): void {
+    if (this.root) return;
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    if (this.client) {
+      this.closeRpcClient(this.client);
+      this.client = null;
+    }
+    this.setState("closed");
+  }
+
+  // ==========================================================================
+  // WRITE OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Publish a new cast to the Farcaster network
+   */
+  async publishCast(options: CastOptions): Promise<Message> {
+    const bytes = utf8ByteLength(options.text);
+    if (bytes > MAX_CAST_BYTES) {
+      throw new Error(
+        `Cast text is ${bytes} bytes, over the ${MAX_CAST_BYTES} byte limit - use publishThread()`
+      );
+    }
+
+    const castBody: CastAddBody = {
+      text: options.text,
+      embeds: buildEmbeds(options),
+      embedsDeprecated: [],
+      mentions: options.mentions ?? [],
+      mentionsPositions: options.mentionsPositions ?? [],
+      type: 0,
+    };
+
+    if (options.parentCastId) {
+      castBody.parentCastId = options.parentCastId;
+    } else if (options.parentUrl) {
+      castBody.parentUrl = options.parentUrl;
+    }
+
+    const castResult = await makeCastAdd(
+      castBody,
+      this.dataOptions(),
+      this.signer
+    );
+
+    if (castResult.isErr()) {
+      throw new Error(`Failed to create cast: ${castResult.error.message}`);
+    }
+
+    return this.submit(castResult.value, "cast");
+  }
+
   /**
    * Reply to an existing cast
    */
   async publishReply(
     text: string,
     parentFid: number,
-    parentHash: string
+    parentHash: string,
+    options: Omit<CastOptions, "text" | "parentCastId" | "parentUrl"> = {}
   ): Promise<Message> {
-    const hashBytes = hexToBytes(
-      parentHash.startsWith("0x") ? parentHash.slice(2) : parentHash
-    );
+    const hashBytes = hashToBytes(parentHash);
 
     return this.publishCast({
+      ...options,
       text,
       parentCastId: {
         fid: parentFid,
@@ -158,54 +758,168 @@ export class DirectHubClient {
   }
 
   /**
-   * Add a reaction (like or recast) to a cast
+   * Publish a cast quoting another cast
    */
-  async publishReaction(options: ReactionOptions): Promise<Message> {
-    const client = this.getClient();
+  async publishQuote(
+    text: string,
+    quotedFid: number,
+    quotedHash: string,
+    options: Omit<CastOptions, "text" | "embedsCastIds"> = {}
+  ): Promise<Message> {
+    return this.publishCast({
+      ...options,
+      text,
+      embedsCastIds: [{ fid: quotedFid, hash: hashToBytes(quotedHash) }],
+    });
+  }
 
-    try {
-      const reactionType =
-        options.type === "like" ? ReactionType.LIKE : ReactionType.RECAST;
-
-      const reactionResult = await makeReactionAdd(
-        {
-          type: reactionType,
-          targetCastId: {
-            fid: options.targetFid,
-            hash: options.targetHash,
-          },
-        },
-        { fid: this.fid, network: this.network },
-        this.signer
+  /**
+   * Publish a thread: each part replies to the previous one
+   *
+   * A string is split on sentence boundaries into cast-sized parts; string
+   * array entries are split the same way if they are too long, and
+   * ThreadPart entries are published as given. If a part fails, the parts
+   * already published are deleted and the error is rethrown.
+   *
+   * Returns the hashes of the published casts, in order.
+   */
+  async publishThread(
+    input: string | Array<string | ThreadPart>,
+    options: PublishThreadOptions = {}
+  ): Promise<string[]> {
+    const maxBytes =
+      MAX_CAST_BYTES - (options.numbered ? THREAD_SUFFIX_BYTES : 0);
+
+    const parts: ThreadPart[] = (typeof input === "string" ? [input] : input)
+      .flatMap((part) =>
+        typeof part === "string"
+          ? splitCastText(part, maxBytes).map((text) => ({ text }))
+          : [part]
+      )
+      .map((part, i, all) =>
+        options.numbered
+          ? { ...part, text: part.text + threadPartSuffix(i, all.length) }
+          : part
       );
 
-      if (reactionResult.isErr()) {
+    if (parts.length === 0) {
+      throw new Error("Failed to publish thread: no text");
+    }
+
+    // Check every part before publishing anything
+    for (const [i, part] of parts.entries()) {
+      const bytes = utf8ByteLength(part.text);
+      if (bytes > MAX_CAST_BYTES) {
         throw new Error(
-          `Failed to create reaction: ${reactionResult.error.message}`
+          `Failed to publish thread: part ${i + 1} is ${bytes} bytes, over the ${MAX_CAST_BYTES} byte limit`
         );
       }
+    }
 
-      const submitResult = await client.submitMessage(reactionResult.value);
+    const hashes: string[] = [];
+    let parentCastId: CastOptions["parentCastId"] =
+      options.parentFid && options.parentHash
+        ? { fid: options.parentFid, hash: hashToBytes(options.parentHash) }
+        : undefined;
 
-      if (submitResult.isErr()) {
+    for (const [i, part] of parts.entries()) {
+      try {
+        const message = await this.publishCast({
+          ...part,
+          parentCastId,
+          parentUrl: parentCastId ? undefined : options.parentUrl,
+        });
+
+        hashes.push(`0x${bytesToHex(message.hash)}`);
+        parentCastId = { fid: this.fid, hash: message.hash };
+      } catch (error) {
+        await this.rollbackThread(hashes);
         throw new Error(
-          `Failed to submit reaction: ${submitResult.error.message}`
+          `Failed to publish thread part ${i + 1}/${parts.length}: ${error instanceof Error ? error.message : String(error)}`
         );
       }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Delete already-published thread parts, newest first
+   */
+  private async rollbackThread(hashes: string[]): Promise<void> {
+    for (const hash of [...hashes].reverse()) {
+      try {
+        await this.deleteCast(hash);
+      } catch (error) {
+        logger.error(
+          `Failed to roll back thread part ${hash.slice(0, 10)}:`,
+          String(error)
+        );
+      }
+    }
+  }
+
+  /**
+   * Add a reaction (like or recast) to a cast
+   */
+  async publishReaction(options: ReactionOptions): Promise<Message> {
+    const reactionType =
+      options.type === "like" ? ReactionType.LIKE : ReactionType.RECAST;
+
+    const reactionResult = await makeReactionAdd(
+      {
+        type: reactionType,
+        targetCastId: {
+          fid: options.targetFid,
+          hash: options.targetHash,
+        },
+      },
+      this.dataOptions(),
+      this.signer
+    );
 
-      return submitResult.value;
-    } finally {
-      client.close();
+    if (reactionResult.isErr()) {
+      throw new Error(
+        `Failed to create reaction: ${reactionResult.error.message}`
+      );
     }
+
+    return this.submit(reactionResult.value, "reaction");
+  }
+
+  /**
+   * Remove a reaction (like or recast) from a cast
+   */
+  async removeReaction(options: ReactionOptions): Promise<Message> {
+    const reactionType =
+      options.type === "like" ? ReactionType.LIKE : ReactionType.RECAST;
+
+    const reactionResult = await makeReactionRemove(
+      {
+        type: reactionType,
+        targetCastId: {
+          fid: options.targetFid,
+          hash: options.targetHash,
+        },
+      },
+      this.dataOptions(),
+      this.signer
+    );
+
+    if (reactionResult.isErr()) {
+      throw new Error(
+        `Failed to create reaction removal: ${reactionResult.error.message}`
+      );
+    }
+
+    return this.submit(reactionResult.value, "reaction removal");
   }
 
   /**
    * Like a cast
    */
   async likeCast(targetFid: number, targetHash: string): Promise<Message> {
-    const hashBytes = hexToBytes(
-      targetHash.startsWith("0x") ? targetHash.slice(2) : targetHash
-    );
+    const hashBytes = hashToBytes(targetHash);
     return this.publishReaction({
       targetFid,
       targetHash: hashBytes,
@@ -217,9 +931,7 @@ export class DirectHubClient {
    * Recast a cast
    */
   async recastCast(targetFid: number, targetHash: string): Promise<Message> {
-    const hashBytes = hexToBytes(
-      targetHash.startsWith("0x") ? targetHash.slice(2) : targetHash
-    );
+    const hashBytes = hashToBytes(targetHash);
     return this.publishReaction({
       targetFid,
       targetHash: hashBytes,
@@ -228,60 +940,225 @@ export class DirectHubClient {
   }
 
   /**
-   * Get casts by a specific FID
+   * Remove a like from a cast
    */
-  async getCastsByFid(fid: number, pageSize: number = 25): Promise<Message[]> {
-    const client = this.getClient();
+  async unlikeCast(targetFid: number, targetHash: string): Promise<Message> {
+    return this.removeReaction({
+      targetFid,
+      targetHash: hashToBytes(targetHash),
+      type: "like",
+    });
+  }
 
-    try {
-      const result = await client.getCastsByFid({ fid, pageSize });
+  /**
+   * Remove a recast
+   */
+  async unrecastCast(targetFid: number, targetHash: string): Promise<Message> {
+    return this.removeReaction({
+      targetFid,
+      targetHash: hashToBytes(targetHash),
+      type: "recast",
+    });
+  }
 
-      if (result.isErr()) {
-        throw new Error(`Failed to get casts: ${result.error.message}`);
-      }
+  /**
+   * Delete one of our own casts
+   */
+  async deleteCast(hash: string): Promise<Message> {
+    const removeResult = await makeCastRemove(
+      { targetHash: hashToBytes(hash) },
+      this.dataOptions(),
+      this.signer
+    );
 
-      return result.value.messages;
-    } finally {
-      client.close();
+    if (removeResult.isErr()) {
+      throw new Error(
+        `Failed to create cast removal: ${removeResult.error.message}`
+      );
     }
+
+    return this.submit(removeResult.value, "cast removal");
   }
 
   /**
-   * Get user data by FID
+   * Follow a user
    */
-  async getUserData(fid: number): Promise<Message[]> {
-    const client = this.getClient();
+  async followUser(targetFid: number): Promise<Message> {
+    const linkResult = await makeLinkAdd(
+      { type: "follow", targetFid },
+      this.dataOptions(),
+      this.signer
+    );
 
-    try {
-      const result = await client.getUserDataByFid({ fid });
+    if (linkResult.isErr()) {
+      throw new Error(
+        `Failed to create follow: ${linkResult.error.message}`
+      );
+    }
 
-      if (result.isErr()) {
-        throw new Error(`Failed to get user data: ${result.error.message}`);
-      }
+    return this.submit(linkResult.value, "follow");
+  }
 
-      return result.value.messages;
-    } finally {
-      client.close();
+  /**
+   * Unfollow a user
+   */
+  async unfollowUser(targetFid: number): Promise<Message> {
+    const linkResult = await makeLinkRemove(
+      { type: "follow", targetFid },
+      this.dataOptions(),
+      this.signer
+    );
+
+    if (linkResult.isErr()) {
+      throw new Error(
+        `Failed to create unfollow: ${linkResult.error.message}`
+      );
     }
+
+    return this.submit(linkResult.value, "unfollow");
   }
 
   /**
-   * Get hub information and stats
+   * Update profile fields
+   *
+   * Each field is its own UserDataAdd message; only the provided fields are
+   * changed. Returns the submitted messages in field order.
    */
-  async getHubInfo(): Promise<unknown> {
-    const client = this.getClient();
+  async updateProfile(update: ProfileUpdate): Promise<Message[]> {
+    const fields: Array<[UserDataType, string | undefined]> = [
+      [UserDataType.DISPLAY, update.displayName],
+      [UserDataType.BIO, update.bio],
+      [UserDataType.PFP, update.pfpUrl],
+      [UserDataType.URL, update.url],
+    ];
 
-    try {
-      const result = await client.getInfo({ dbStats: true });
+    const messages: Message[] = [];
+
+    for (const [type, value] of fields) {
+      if (value === undefined) continue;
 
-      if (result.isErr()) {
-        throw new Error(`Failed to get hub info: ${result.error.message}`);
+      const userDataResult = await makeUserDataAdd(
+        { type, value },
+        this.dataOptions(),
+        this.signer
+      );
+
+      if (userDataResult.isErr()) {
+        throw new Error(
+          `Failed to create profile update: ${userDataResult.error.message}`
+        );
       }
 
-      return result.value;
-    } finally {
-      client.close();
+      messages.push(await this.submit(userDataResult.value, "profile update"));
     }
+
+    return messages;
+  }
+
+  // ==========================================================================
+  // STREAMING
+  // ==========================================================================
+
+  /**
+   * Subscribe to the hub's event stream
+   *
+   * Opens a dedicated gRPC connection that stays open until the returned
+   * subscription is closed or the stream ends.
+   */
+  async subscribeToEvents(
+    options: SubscribeOptions
+  ): Promise<EventSubscription> {
+    const client = this.createRpcClient();
+
+    const result = await client.subscribe({
+      eventTypes: options.eventTypes ?? [HubEventType.MERGE_MESSAGE],
+      fromId: options.fromId,
+    });
+
+    if (result.isErr()) {
+      this.closeRpcClient(client);
+      throw new Error(`Failed to subscribe: ${result.error.message}`);
+    }
+
+    const stream = result.value;
+    let closed = false;
+
+    const close = (error?: Error) => {
+      if (closed) return;
+      closed = true;
+      stream.cancel();
+      this.closeRpcClient(client);
+      options.onClose?.(error);
+    };
+
+    stream.on("data", (event: HubEvent) => options.onEvent(event));
+    stream.on("error", (error: Error) => close(error));
+    stream.on("end", () => close());
+
+    return {
+      close: () => {
+        if (closed) return;
+        closed = true;
+        stream.cancel();
+        this.closeRpcClient(client);
+      },
+    };
+  }
+
+  // ==========================================================================
+  // READ OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Get casts by a specific FID
+   */
+  async getCastsByFid(fid: number, pageSize: number = 25): Promise<Message[]> {
+    const response = await this.withRetry("get casts", (client) =>
+      client.getCastsByFid(
+        { fid, pageSize },
+        this.callMetadata(),
+        this.callOptions()
+      )
+    );
+    return response.messages;
+  }
+
+  /**
+   * Get user data by FID
+   */
+  async getUserData(fid: number): Promise<Message[]> {
+    const response = await this.withRetry("get user data", (client) =>
+      client.getUserDataByFid(
+        { fid },
+        this.callMetadata(),
+        this.callOptions()
+      )
+    );
+    return response.messages;
+  }
+
+  /**
+   * Storage units and per-store limits/usage for a FID (default: ours)
+   */
+  async getStorageLimits(
+    fid: number = this.fid
+  ): Promise<StorageLimitsResponse> {
+    return this.withRetry("get storage limits", (client) =>
+      client.getCurrentStorageLimitsByFid(
+        { fid },
+        this.callMetadata(),
+        this.callOptions()
+      )
+    );
+  }
+
+  /**
+   * Get hub information and stats
+   */
+  async getHubInfo(): Promise<unknown> {
+    return this.withRetry("get hub info", (client) =>
+      client.getInfo({ dbStats: true }, this.callMetadata(), this.callOptions())
+    );
   }
 }
 
@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DirectHubClient, getHubRpcInfo } from "./hub-client";
+import { createHubApiClient } from "./hub-api-client";
+import { HubInfo } from "./hub-schemas";
+import { HubMonitor, HubMonitorConfig } from "./hub-monitor";
+import { HttpClient } from "./http";
+
+vi.mock("./hub-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./hub-client")>()),
+  getHubRpcInfo: vi.fn(),
+}));
+
+const LOCAL = "http://local.test";
+const BACKUP = "http://backup.test";
+
+/**
+ * /v1/info answers by hub origin; hubs without one are unreachable
+ */
+let infos: Record<string, HubInfo>;
+
+function monitor(config: Partial<HubMonitorConfig>) {
+  const fetch = vi.fn(async (input: string | URL | Request) => {
+    const info = infos[new URL(String(input)).origin];
+    if (!info) throw new TypeError("fetch failed");
+    return Response.json(info);
+  });
+  const hubApiClient = createHubApiClient(LOCAL);
+  let writeHub = "local.test:3383";
+  const hubClient = {
+    getHubUrl: () => writeHub,
+    switchHub: vi.fn((url: string) => {
+      writeHub = url;
+    }),
+  };
+
+  const hubMonitor = new HubMonitor(
+    { readHubs: [LOCAL, BACKUP], writeHubs: [], checkInterval: 0, ...config },
+    hubApiClient,
+    hubClient as unknown as DirectHubClient,
+    new HttpClient({ fetch, requestsPerSecond: 0, maxRetries: 0 })
+  );
+
+  return { hubMonitor, hubApiClient, hubClient, fetch };
+}
+
+describe("HubMonitor", () => {
+  beforeEach(() => {
+    infos = {};
+    vi.mocked(getHubRpcInfo).mockReset();
+  });
+
+  describe("read failover", () => {
+    it("stays on the first hub while it is healthy", async () => {
+      infos[LOCAL] = { isSyncing: false, numMessages: 1000 };
+      infos[BACKUP] = { isSyncing: false, numMessages: 1005 };
+      const { hubMonitor, hubApiClient } = monitor({});
+
+      const status = await hubMonitor.check();
+
+      expect(hubApiClient.getHttpUrl()).toBe(LOCAL);
+      expect(status.readHealthy).toBe(true);
+      expect(status.hubs.map((hub) => hub.healthy)).toEqual([true, true]);
+    });
+
+    it("moves off a hub that reports it is syncing", async () => {
+      infos[LOCAL] = { isSyncing: true, numMessages: 1000 };
+      infos[BACKUP] = { isSyncing: false, numMessages: 1000 };
+      const { hubMonitor, hubApiClient } = monitor({});
+
+      const status = await hubMonitor.check();
+
+      expect(hubApiClient.getHttpUrl()).toBe(BACKUP);
+      expect(status.hubs[0].reason).toBe("hub reports it is syncing");
+    });
+
+    it("moves off a hub missing too many messages", async () => {
+      infos[LOCAL] = { isSyncing: false, numMessages: 900 };
+      infos[BACKUP] = { isSyncing: false, numMessages: 1000 };
+      const { hubMonitor, hubApiClient } = monitor({ maxLagRatio: 0.05 });
+
+      const [local] = (await hubMonitor.check()).hubs;
+
+      expect(hubApiClient.getHttpUrl()).toBe(BACKUP);
+      expect(local).toMatchObject({
+        healthy: false,
+        messagesBehind: 100,
+        reason: "100 messages behind the reference",
+      });
+    });
+
+    it("moves off a hub behind on shard heights", async () => {
+      infos[LOCAL] = {
+        shardInfos: [
+          { shardId: 1, maxHeight: 5000, numMessages: 500 },
+          { shardId: 2, maxHeight: 4000, numMessages: 500 },
+        ],
+      };
+      infos[BACKUP] = {
+        shardInfos: [
+          { shardId: 1, maxHeight: 5010, numMessages: 501 },
+          { shardId: 2, maxHeight: 4500, numMessages: 500 },
+        ],
+      };
+      const { hubMonitor, hubApiClient } = monitor({ maxBlockLag: 100 });
+
+      const [local] = (await hubMonitor.check()).hubs;
+
+      expect(hubApiClient.getHttpUrl()).toBe(BACKUP);
+      expect(local.blocksBehind).toBe(500);
+    });
+
+    it("moves off an unreachable hub and back once it recovers", async () => {
+      infos[BACKUP] = { isSyncing: false, numMessages: 1000 };
+      const { hubMonitor, hubApiClient } = monitor({});
+
+      const [local] = (await hubMonitor.check()).hubs;
+      expect(local.reachable).toBe(false);
+      expect(hubApiClient.getHttpUrl()).toBe(BACKUP);
+
+      infos[LOCAL] = { isSyncing: false, numMessages: 1000 };
+      await hubMonitor.check();
+
+      expect(hubApiClient.getHttpUrl()).toBe(LOCAL);
+    });
+
+    it("stays put and reports unhealthy when no hub is usable", async () => {
+      infos[LOCAL] = { isSyncing: true };
+      const { hubMonitor, hubApiClient } = monitor({});
+
+      const status = await hubMonitor.check();
+
+      expect(hubApiClient.getHttpUrl()).toBe(LOCAL);
+      expect(status.readHealthy).toBe(false);
+      expect(hubMonitor.isReadHealthy()).toBe(false);
+    });
+
+    it("measures lag against the reference hub when set", async () => {
+      const reference = "http://reference.test";
+      infos[LOCAL] = { isSyncing: false, numMessages: 1000 };
+      infos[BACKUP] = { isSyncing: false, numMessages: 1000 };
+      infos[reference] = { isSyncing: false, numMessages: 2000 };
+      const { hubMonitor } = monitor({ referenceHub: reference });
+
+      const status = await hubMonitor.check();
+
+      expect(status.readHealthy).toBe(false);
+      expect(status.hubs.map((hub) => hub.role)).toEqual([
+        "read",
+        "read",
+        "reference",
+      ]);
+      expect(status.hubs[0].messagesBehind).toBe(1000);
+    });
+  });
+
+  describe("write failover", () => {
+    it("switches the gRPC client to the first healthy write hub", async () => {
+      infos[LOCAL] = { isSyncing: false, numMessages: 1000 };
+      vi.mocked(getHubRpcInfo).mockImplementation(async (url) => {
+        if (url.startsWith("local")) throw new Error("UNAVAILABLE");
+        return { version: "1.0", isSyncing: false } as Awaited<
+          ReturnType<typeof getHubRpcInfo>
+        >;
+      });
+      const { hubMonitor, hubClient } = monitor({
+        readHubs: [LOCAL],
+        writeHubs: ["local.test:3383", "https://backup.test:3383"],
+      });
+
+      const status = await hubMonitor.check();
+
+      expect(hubClient.switchHub).toHaveBeenCalledWith(
+        "https://backup.test:3383"
+      );
+      expect(status.activeWriteHub).toBe("https://backup.test:3383");
+      expect(status.writeHealthy).toBe(true);
+    });
+  });
+
+  it("shares one round between concurrent checks", async () => {
+    infos[LOCAL] = { isSyncing: false, numMessages: 1000 };
+    infos[BACKUP] = { isSyncing: false, numMessages: 1000 };
+    const { hubMonitor, fetch } = monitor({});
+
+    await Promise.all([hubMonitor.check(), hubMonitor.check()]);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
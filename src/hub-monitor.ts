@@ -0,0 +1,373 @@
+/**
+ * Hub Monitor
+ *
+ * Periodically checks every configured hub through /v1/info (HTTP read
+ * hubs) or getInfo (gRPC write hubs) and keeps the clients pointed at the
+ * first healthy hub in each list. A hub is unhealthy when it can't be
+ * reached, reports that it is syncing, or is behind the reference hub by
+ * more than the allowed lag:
+ * - messages: share of the reference's message count we are missing
+ * - blocks: Snapchain shard heights, when both hubs report them
+ *
+ * The reference is FARCASTER_REFERENCE_HUB_URL when set, otherwise the most
+ * complete hub seen in the same round. A node that is resyncing serves old
+ * data as if it were current; without this the agent answers week-old
+ * mentions.
+ *
+ * Preference order is list order, so reads and writes go back to the local
+ * node as soon as it has caught up.
+ */
+
+import { DirectHubClient, getHubRpcInfo } from "./hub-client";
+import { HubApiClient, createHubApiClient } from "./hub-api-client";
+import { HubInfo, getHubMessageCount } from "./hub-schemas";
+import { HttpClient } from "./http";
+
+const logger = {
+  info: (...args: unknown[]) => console.log("[HubMonitor]", ...args),
+  error: (...args: unknown[]) => console.error("[HubMonitor]", ...args),
+  warn: (...args: unknown[]) => console.warn("[HubMonitor]", ...args),
+};
+
+export interface HubMonitorConfig {
+  /** HTTP API URLs to read from, in order of preference */
+  readHubs: string[];
+  /** gRPC URLs to write to, in order of preference */
+  writeHubs: string[];
+  /** HTTP API URL of a hub to measure sync lag against */
+  referenceHub?: string;
+  /** Share of the reference's messages a hub may be missing (default 0.01) */
+  maxLagRatio?: number;
+  /** Blocks a hub may be behind on any shard (default 100) */
+  maxBlockLag?: number;
+  /** Time between checks in ms, 0 to only check on demand (default 60s) */
+  checkInterval?: number;
+}
+
+export type HubRole = "read" | "write" | "reference";
+
+export interface HubHealth {
+  url: string;
+  role: HubRole;
+  healthy: boolean;
+  reachable: boolean;
+  isSyncing: boolean;
+  messageCount: number | null;
+  /** Messages behind the reference, null if unknown */
+  messagesBehind: number | null;
+  /** Blocks behind the reference on the most lagging shard, null if unknown */
+  blocksBehind: number | null;
+  /** Why the hub is unhealthy, null when healthy */
+  reason: string | null;
+  /** Unix ms */
+  checkedAt: number;
+}
+
+export interface HubStatus {
+  activeReadHub: string;
+  activeWriteHub: string;
+  /** False when no read hub is healthy; reads may be stale */
+  readHealthy: boolean;
+  /** False when no write hub is healthy */
+  writeHealthy: boolean;
+  hubs: HubHealth[];
+  /** Unix ms of the last completed check, null before the first */
+  checkedAt: number | null;
+}
+
+interface Probe {
+  url: string;
+  role: HubRole;
+  info: HubInfo | null;
+  error: string | null;
+}
+
+/**
+ * Highest block per shard, for Snapchain hubs
+ */
+function shardHeights(info: HubInfo): Map<number, number> {
+  return new Map(
+    (info.shardInfos ?? [])
+      .filter((shard) => shard.maxHeight !== undefined)
+      .map((shard) => [shard.shardId, shard.maxHeight!])
+  );
+}
+
+export class HubMonitor {
+  private readonly maxLagRatio: number;
+  private readonly maxBlockLag: number;
+  private readonly checkInterval: number;
+
+  private probes: Map<string, HubApiClient> = new Map();
+  private health: HubHealth[] = [];
+  private checkedAt: number | null = null;
+  private readHealthy = true;
+  private writeHealthy = true;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<HubStatus> | null = null;
+
+  constructor(
+    private config: HubMonitorConfig,
+    private hubApiClient: HubApiClient,
+    private hubClient: DirectHubClient,
+    /** HTTP layer for probing read hubs */
+    private http?: HttpClient
+  ) {
+    // Compare like HubApiClient.getHttpUrl() does
+    this.config = {
+      ...config,
+      readHubs: config.readHubs.map((url) => url.replace(/\/$/, "")),
+    };
+    this.maxLagRatio = config.maxLagRatio ?? 0.01;
+    this.maxBlockLag = config.maxBlockLag ?? 100;
+    this.checkInterval = config.checkInterval ?? 60000;
+  }
+
+  /**
+   * Check periodically until stop()
+   */
+  start(): void {
+    if (this.timer || this.checkInterval <= 0) return;
+
+    this.timer = setInterval(() => {
+      this.check().catch((error) =>
+        logger.error("Hub check failed:", String(error))
+      );
+    }, this.checkInterval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Probe every hub and switch the clients to the best ones
+   *
+   * Concurrent calls share one round.
+   */
+  async check(): Promise<HubStatus> {
+    if (!this.running) {
+      this.running = this.runCheck().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  getStatus(): HubStatus {
+    return {
+      activeReadHub: this.hubApiClient.getHttpUrl(),
+      activeWriteHub: this.hubClient.getHubUrl(),
+      readHealthy: this.readHealthy,
+      writeHealthy: this.writeHealthy,
+      hubs: this.health,
+      checkedAt: this.checkedAt,
+    };
+  }
+
+  /**
+   * Whether reads currently come from a healthy, caught-up hub
+   */
+  isReadHealthy(): boolean {
+    return this.readHealthy;
+  }
+
+  private async runCheck(): Promise<HubStatus> {
+    const { readHubs, writeHubs, referenceHub } = this.config;
+
+    const reads = await Promise.all(
+      readHubs.map((url) => this.probeHttp(url, "read"))
+    );
+    const writes = await Promise.all(
+      writeHubs.map((url) => this.probeRpc(url))
+    );
+    const reference = referenceHub
+      ? await this.probeHttp(referenceHub, "reference")
+      : null;
+
+    const baseline = this.pickBaseline(
+      reference?.info ? [reference] : [...reads, ...writes]
+    );
+    const checkedAt = Date.now();
+    const evaluate = (probe: Probe) =>
+      this.evaluate(probe, baseline, checkedAt);
+
+    const readHealth = reads.map(evaluate);
+    const writeHealth = writes.map(evaluate);
+    this.health = [
+      ...readHealth,
+      ...writeHealth,
+      ...(reference ? [evaluate(reference)] : []),
+    ];
+    this.checkedAt = checkedAt;
+
+    this.readHealthy = this.failover(
+      "read",
+      readHealth,
+      this.hubApiClient.getHttpUrl(),
+      (url) => this.hubApiClient.setHttpUrl(url),
+      this.readHealthy
+    );
+    this.writeHealthy = this.failover(
+      "write",
+      writeHealth,
+      this.hubClient.getHubUrl(),
+      (url) => this.hubClient.switchHub(url),
+      this.writeHealthy
+    );
+
+    return this.getStatus();
+  }
+
+  private async probeHttp(url: string, role: HubRole): Promise<Probe> {
+    let client = this.probes.get(url);
+    if (!client) {
+      client = createHubApiClient(url, { http: this.http }).strict();
+      this.probes.set(url, client);
+    }
+
+    try {
+      return { url, role, info: await client.getInfo(), error: null };
+    } catch (error) {
+      return { url, role, info: null, error: String(error) };
+    }
+  }
+
+  private async probeRpc(url: string): Promise<Probe> {
+    try {
+      // TLS per hub, from the URL scheme
+      const info = await getHubRpcInfo(url);
+      return {
+        url,
+        role: "write",
+        info: {
+          version: info.version,
+          isSyncing: info.isSyncing,
+          dbStats: info.dbStats,
+        },
+        error: null,
+      };
+    } catch (error) {
+      return { url, role: "write", info: null, error: String(error) };
+    }
+  }
+
+  /**
+   * The most complete hub among the probes (by message count)
+   */
+  private pickBaseline(probes: Probe[]): HubInfo | null {
+    let best: HubInfo | null = null;
+    for (const { info } of probes) {
+      if (!info || info.isSyncing) continue;
+      if (
+        !best ||
+        (getHubMessageCount(info) ?? 0) > (getHubMessageCount(best) ?? 0)
+      ) {
+        best = info;
+      }
+    }
+    return best;
+  }
+
+  private evaluate(
+    probe: Probe,
+    baseline: HubInfo | null,
+    checkedAt: number
+  ): HubHealth {
+    const health: HubHealth = {
+      url: probe.url,
+      role: probe.role,
+      healthy: false,
+      reachable: !!probe.info,
+      isSyncing: probe.info?.isSyncing ?? false,
+      messageCount: probe.info ? getHubMessageCount(probe.info) : null,
+      messagesBehind: null,
+      blocksBehind: null,
+      reason: probe.error,
+      checkedAt,
+    };
+    if (!probe.info) return health;
+
+    const referenceCount = baseline ? getHubMessageCount(baseline) : null;
+    if (referenceCount && health.messageCount !== null) {
+      health.messagesBehind = Math.max(
+        0,
+        referenceCount - health.messageCount
+      );
+    }
+
+    if (baseline) {
+      const ours = shardHeights(probe.info);
+      for (const [shardId, height] of shardHeights(baseline)) {
+        const own = ours.get(shardId);
+        if (own === undefined) continue;
+        health.blocksBehind = Math.max(
+          health.blocksBehind ?? 0,
+          height - own
+        );
+      }
+    }
+
+    if (health.isSyncing) {
+      health.reason = "hub reports it is syncing";
+    } else if (
+      referenceCount &&
+      health.messagesBehind !== null &&
+      health.messagesBehind / referenceCount > this.maxLagRatio
+    ) {
+      health.reason = `${health.messagesBehind} messages behind the reference`;
+    } else if (
+      health.blocksBehind !== null &&
+      health.blocksBehind > this.maxBlockLag
+    ) {
+      health.reason = `${health.blocksBehind} blocks behind the reference`;
+    } else {
+      health.healthy = true;
+    }
+
+    return health;
+  }
+
+  /**
+   * Point a client at the first healthy hub of a role
+   *
+   * With no healthy hub the client stays where it is. Returns whether a
+   * healthy hub was found.
+   */
+  private failover(
+    role: HubRole,
+    health: HubHealth[],
+    current: string,
+    switchTo: (url: string) => void,
+    wasHealthy: boolean
+  ): boolean {
+    if (health.length === 0) return true;
+
+    const best = health.find((hub) => hub.healthy);
+
+    if (!best) {
+      if (wasHealthy) {
+        logger.error(
+          `No healthy ${role} hub: ${health.map((hub) => `${hub.url} (${hub.reason})`).join(", ")}`
+        );
+      }
+      return false;
+    }
+
+    if (best.url !== current) {
+      const previous = health.find((hub) => hub.url === current);
+      logger.warn(
+        `Switching ${role} hub ${current} -> ${best.url}${previous?.reason ? ` (${previous.reason})` : ""}`
+      );
+      switchTo(best.url);
+    } else if (!wasHealthy) {
+      logger.info(`${role} hub ${current} is healthy again`);
+    }
+
+    return true;
+  }
+}
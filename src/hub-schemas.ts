@@ -0,0 +1,177 @@
+/**
+ * Hub HTTP Response Models
+ *
+ * Schemas for the JSON the hub HTTP API returns (Hubble and Snapchain share
+ * the message format). Responses are validated before use, so a malformed or
+ * version-skewed payload fails with a HubResponseError naming the endpoint
+ * and the offending fields, instead of turning into `fid: 0` or empty text.
+ *
+ * Unknown fields are ignored, so newer hubs adding fields don't break us.
+ */
+
+import { z } from "zod";
+import { HubResponseError } from "./errors";
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a payload against a schema, throwing HubResponseError on mismatch
+ */
+export function parseHubResponse<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  endpoint: string
+): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new HubResponseError(
+      endpoint,
+      result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+      )
+    );
+  }
+  return result.data;
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+const fidSchema = z.number().int().positive();
+const hashSchema = z.string().regex(/^0x[0-9a-f]+$/i, "expected 0x hex");
+
+export const hubCastIdSchema = z.object({
+  fid: fidSchema,
+  hash: hashSchema,
+});
+
+export const hubEmbedSchema = z.object({
+  url: z.string().optional(),
+  castId: hubCastIdSchema.optional(),
+});
+
+export const hubCastAddBodySchema = z.object({
+  text: z.string().default(""),
+  mentions: z.array(fidSchema).default([]),
+  mentionsPositions: z.array(z.number().int().nonnegative()).default([]),
+  embeds: z.array(hubEmbedSchema).default([]),
+  embedsDeprecated: z.array(z.string()).default([]),
+  parentCastId: hubCastIdSchema.optional(),
+  parentUrl: z.string().optional(),
+});
+
+export const hubUserDataBodySchema = z.object({
+  type: z.string(),
+  value: z.string(),
+});
+
+export const hubReactionBodySchema = z.object({
+  type: z.string(),
+  targetCastId: hubCastIdSchema.optional(),
+  targetUrl: z.string().optional(),
+});
+
+export const hubLinkBodySchema = z.object({
+  type: z.string(),
+  targetFid: fidSchema.optional(),
+});
+
+export const hubMessageDataSchema = z.object({
+  type: z.string(),
+  fid: fidSchema,
+  /** Farcaster timestamp (seconds since 2021-01-01) */
+  timestamp: z.number().int().nonnegative(),
+  network: z.string().optional(),
+  castAddBody: hubCastAddBodySchema.optional(),
+  userDataBody: hubUserDataBodySchema.optional(),
+  reactionBody: hubReactionBodySchema.optional(),
+  linkBody: hubLinkBodySchema.optional(),
+});
+
+export const hubMessageSchema = z.object({
+  data: hubMessageDataSchema,
+  hash: hashSchema,
+});
+
+/**
+ * A page of messages; items are validated one by one so a single bad
+ * message doesn't discard the page
+ */
+export const hubMessagesPageSchema = z.object({
+  messages: z.array(z.unknown()).default([]),
+  nextPageToken: z.string().optional(),
+});
+
+export type HubCastId = z.infer<typeof hubCastIdSchema>;
+export type HubCastAddBody = z.infer<typeof hubCastAddBodySchema>;
+export type HubUserDataBody = z.infer<typeof hubUserDataBodySchema>;
+export type HubReactionBody = z.infer<typeof hubReactionBodySchema>;
+export type HubLinkBody = z.infer<typeof hubLinkBodySchema>;
+export type HubMessageData = z.infer<typeof hubMessageDataSchema>;
+export type HubMessage = z.infer<typeof hubMessageSchema>;
+export type HubMessagesPage = z.infer<typeof hubMessagesPageSchema>;
+
+// ============================================================================
+// OTHER RESPONSES
+// ============================================================================
+
+export const hubUserNameProofSchema = z.object({
+  name: z.string(),
+  fid: fidSchema,
+  timestamp: z.number().optional(),
+  owner: z.string().optional(),
+  type: z.string().optional(),
+});
+
+const dbStatsSchema = z.object({
+  numMessages: z.number().optional(),
+  numFidEvents: z.number().optional(),
+  numFnameEvents: z.number().optional(),
+  numFidRegistrations: z.number().optional(),
+  approxSize: z.number().optional(),
+});
+
+/**
+ * /v1/info: Hubble reports version/sync fields, Snapchain reports shards
+ */
+export const hubInfoSchema = z.object({
+  version: z.string().optional(),
+  isSyncing: z.boolean().optional(),
+  nickname: z.string().optional(),
+  rootHash: z.string().optional(),
+  peerId: z.string().optional(),
+  hubOperatorFid: z.number().optional(),
+  numMessages: z.number().optional(),
+  dbStats: dbStatsSchema.optional(),
+  numShards: z.number().optional(),
+  shardInfos: z
+    .array(
+      z.object({
+        shardId: z.number(),
+        maxHeight: z.number().optional(),
+        numMessages: z.number().optional(),
+      })
+    )
+    .optional(),
+});
+
+export type HubUserNameProof = z.infer<typeof hubUserNameProofSchema>;
+export type HubInfo = z.infer<typeof hubInfoSchema>;
+
+/**
+ * Total messages stored by the hub, if it reports it
+ */
+export function getHubMessageCount(info: HubInfo): number | null {
+  if (info.numMessages !== undefined) return info.numMessages;
+  if (info.dbStats?.numMessages !== undefined) return info.dbStats.numMessages;
+  if (info.shardInfos?.length) {
+    return info.shardInfos.reduce(
+      (sum, shard) => sum + (shard.numMessages ?? 0),
+      0
+    );
+  }
+  return null;
+}
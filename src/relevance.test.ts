@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from "vitest";
+import { CastWithAuthor, HubApiClient } from "./hub-api-client";
+import {
+  AuthorScorer,
+  KeywordScorer,
+  RelevanceEngine,
+  RelevanceScorer,
+  parseKeywordRules,
+} from "./relevance";
+
+function cast(text: string, fid: number = 1): CastWithAuthor {
+  return { fid, text, renderedText: text } as CastWithAuthor;
+}
+
+/**
+ * Scorer that always returns `score`
+ */
+function fixed(name: string, score: number): RelevanceScorer {
+  return { name, score: async () => ({ score, reasons: [name] }) };
+}
+
+describe("parseKeywordRules", () => {
+  it("reads weights, defaulting to 1", () => {
+    const rules = parseKeywordRules(["ethereum:2.5", "farcaster", "spam:-3"]);
+
+    expect(rules.map(({ label, weight }) => ({ label, weight }))).toEqual([
+      { label: "ethereum", weight: 2.5 },
+      { label: "farcaster", weight: 1 },
+      { label: "spam", weight: -3 },
+    ]);
+  });
+
+  it("matches plain terms as whole words, ignoring case", () => {
+    const [rule] = parseKeywordRules(["eth"]);
+
+    expect(rule.pattern.test("ETH is up")).toBe(true);
+    expect(rule.pattern.test("something else")).toBe(false);
+  });
+
+  it("escapes regex characters in plain terms", () => {
+    const [rule] = parseKeywordRules(["node.js"]);
+
+    expect(rule.pattern.test("built with Node.js")).toBe(true);
+    expect(rule.pattern.test("built with nodexjs")).toBe(false);
+  });
+
+  it("reads slash-wrapped terms as regexes, case-insensitive by default", () => {
+    const [plain, flagged] = parseKeywordRules([
+      "/smart contracts?/:2",
+      "/^GM$/m",
+    ]);
+
+    expect(plain.weight).toBe(2);
+    expect(plain.pattern.test("Smart Contract audit")).toBe(true);
+    expect(flagged.pattern.flags).toBe("m");
+    expect(flagged.pattern.test("gm")).toBe(false);
+  });
+
+  it("skips blank entries and invalid regexes", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const rules = parseKeywordRules(["", "  ", "/(unclosed/", "gm"]);
+
+    expect(rules.map((rule) => rule.label)).toEqual(["gm"]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
+
+describe("KeywordScorer", () => {
+  it("adds up the weight of every matching rule", async () => {
+    const scorer = new KeywordScorer(
+      parseKeywordRules(["ethereum:2", "/layer ?2/:1.5", "nft:-1"])
+    );
+
+    const result = await scorer.score(cast("Ethereum layer2 scaling"));
+
+    expect(result.score).toBe(3.5);
+    expect(result.reasons).toEqual([
+      'keyword "ethereum" (2)',
+      'keyword "/layer ?2/" (1.5)',
+    ]);
+  });
+});
+
+describe("AuthorScorer", () => {
+  it("boosts allow-listed authors", async () => {
+    const scorer = new AuthorScorer({
+      allowFids: [7],
+      allowBoost: 3,
+      followedBoost: 0,
+    });
+
+    expect((await scorer.score(cast("gm", 7))).score).toBe(3);
+    expect((await scorer.score(cast("gm", 8))).score).toBe(0);
+  });
+
+  it("boosts followed authors, loading the follows once per TTL", async () => {
+    const getFollowing = vi.fn(async () => [7, 9]);
+    const scorer = new AuthorScorer({
+      allowFids: [7],
+      allowBoost: 3,
+      followedBoost: 1,
+      agentFid: 100,
+      hubApiClient: { getFollowing } as unknown as HubApiClient,
+    });
+
+    expect((await scorer.score(cast("gm", 7))).score).toBe(4);
+    expect((await scorer.score(cast("gm", 9))).score).toBe(1);
+    expect((await scorer.score(cast("gm", 8))).score).toBe(0);
+    expect(getFollowing).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("RelevanceEngine", () => {
+  const engine = new RelevanceEngine(
+    [fixed("keywords", 2), fixed("author", 1.5)],
+    { like: 1, recast: 3, reply: 4 }
+  );
+
+  it("sums the scorers and keeps each one's part", async () => {
+    const result = await engine.evaluate(cast("gm"));
+
+    expect(result.score).toBe(3.5);
+    expect(result.reasons).toEqual(["keywords", "author"]);
+    expect(result.breakdown.map((part) => part.scorer)).toEqual([
+      "keywords",
+      "author",
+    ]);
+  });
+
+  it("compares the total against each action's threshold", async () => {
+    const result = await engine.evaluate(cast("gm"));
+
+    expect(engine.meetsThreshold(result, "like")).toBe(true);
+    expect(engine.meetsThreshold(result, "recast")).toBe(true);
+    expect(engine.meetsThreshold(result, "reply")).toBe(false);
+  });
+});
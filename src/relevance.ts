@@ -0,0 +1,316 @@
+/**
+ * Relevance Scoring
+ *
+ * Decides which casts the agent engages with. A RelevanceEngine runs a list
+ * of scorers over a cast, sums their scores and compares the total against
+ * a per-action threshold (like, recast, reply).
+ *
+ * Built-in scorers:
+ * - KeywordScorer: weighted keywords and regexes (SCAN_KEYWORDS or the
+ *   character's topics)
+ * - AuthorScorer: boost for allow-listed FIDs and accounts the agent follows
+ * - LlmScorer: optional model-based classifier through the runtime
+ *
+ * Custom scorers only need to implement RelevanceScorer.
+ */
+
+import {
+  IAgentRuntime,
+  ModelType,
+  composePrompt,
+  parseKeyValueXml,
+} from "@elizaos/core";
+import { CastWithAuthor, HubApiClient } from "./hub-api-client";
+import { farcasterRelevanceTemplate } from "./templates";
+
+const logger = {
+  info: (...args: unknown[]) => console.log("[Relevance]", ...args),
+  error: (...args: unknown[]) => console.error("[Relevance]", ...args),
+  warn: (...args: unknown[]) => console.warn("[Relevance]", ...args),
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EngagementAction = "like" | "recast" | "reply";
+
+export type RelevanceThresholds = Record<EngagementAction, number>;
+
+export interface RelevanceScore {
+  score: number;
+  /** Human-readable explanation of each contribution */
+  reasons: string[];
+}
+
+export interface RelevanceScorer {
+  name: string;
+  score(cast: CastWithAuthor): Promise<RelevanceScore>;
+}
+
+export interface RelevanceResult extends RelevanceScore {
+  breakdown: Array<RelevanceScore & { scorer: string }>;
+}
+
+export interface KeywordRule {
+  pattern: RegExp;
+  weight: number;
+  /** Original entry, used in reasons */
+  label: string;
+}
+
+// ============================================================================
+// KEYWORD SCORER
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Parse keyword entries into rules
+ *
+ * Each entry is `term` or `term:weight` (weight defaults to 1). Terms
+ * wrapped in slashes are regular expressions, e.g. `/smart contracts?/:2`.
+ * Plain terms match whole words, case-insensitively.
+ */
+export function parseKeywordRules(entries: string[]): KeywordRule[] {
+  const rules: KeywordRule[] = [];
+
+  for (const raw of entries) {
+    const entry = raw.trim();
+    if (!entry) continue;
+
+    const weightMatch = entry.match(/^(.*):(-?\d+(?:\.\d+)?)$/);
+    const term = (weightMatch ? weightMatch[1] : entry).trim();
+    const weight = weightMatch ? parseFloat(weightMatch[2]) : 1;
+
+    try {
+      const regexMatch = term.match(/^\/(.+)\/([a-z]*)$/);
+      const pattern = regexMatch
+        ? new RegExp(regexMatch[1], regexMatch[2] || "i")
+        : new RegExp(`\\b${escapeRegExp(term)}\\b`, "i");
+      rules.push({ pattern, weight, label: term });
+    } catch (error) {
+      logger.warn(`Ignoring invalid keyword "${term}":`, String(error));
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Adds the weight of every rule that matches the cast text
+ */
+export class KeywordScorer implements RelevanceScorer {
+  name = "keywords";
+
+  constructor(private rules: KeywordRule[]) {}
+
+  async score(cast: CastWithAuthor): Promise<RelevanceScore> {
+    let score = 0;
+    const reasons: string[] = [];
+
+    for (const rule of this.rules) {
+      if (rule.pattern.test(cast.text)) {
+        score += rule.weight;
+        reasons.push(`keyword "${rule.label}" (${rule.weight})`);
+      }
+    }
+
+    return { score, reasons };
+  }
+}
+
+// ============================================================================
+// AUTHOR SCORER
+// ============================================================================
+
+export interface AuthorScorerOptions {
+  /** FIDs that always get the allow-list boost */
+  allowFids: number[];
+  allowBoost: number;
+  /** Boost for accounts the agent follows, 0 to disable */
+  followedBoost: number;
+  /** Our FID and a client to look up who we follow */
+  agentFid?: number;
+  hubApiClient?: HubApiClient;
+  /** How long the following list is cached (ms) */
+  followingTtl?: number;
+}
+
+/**
+ * Boosts casts from allow-listed authors and accounts the agent follows
+ */
+export class AuthorScorer implements RelevanceScorer {
+  name = "author";
+
+  private allowFids: Set<number>;
+  private following: Set<number> = new Set();
+  private followingLoadedAt = 0;
+
+  constructor(private options: AuthorScorerOptions) {
+    this.allowFids = new Set(options.allowFids);
+  }
+
+  async score(cast: CastWithAuthor): Promise<RelevanceScore> {
+    let score = 0;
+    const reasons: string[] = [];
+
+    if (this.allowFids.has(cast.fid)) {
+      score += this.options.allowBoost;
+      reasons.push(`allow-listed author (${this.options.allowBoost})`);
+    }
+
+    if (this.options.followedBoost) {
+      const following = await this.getFollowing();
+      if (following.has(cast.fid)) {
+        score += this.options.followedBoost;
+        reasons.push(`followed author (${this.options.followedBoost})`);
+      }
+    }
+
+    return { score, reasons };
+  }
+
+  private async getFollowing(): Promise<Set<number>> {
+    const { agentFid, hubApiClient, followingTtl = 60 * 60 * 1000 } =
+      this.options;
+    if (!agentFid || !hubApiClient) return this.following;
+
+    if (Date.now() - this.followingLoadedAt > followingTtl) {
+      // Set the timestamp first so a slow hub isn't queried concurrently
+      this.followingLoadedAt = Date.now();
+      this.following = new Set(await hubApiClient.getFollowing(agentFid));
+    }
+
+    return this.following;
+  }
+}
+
+// ============================================================================
+// LLM SCORER
+// ============================================================================
+
+/**
+ * Asks the runtime's small model to rate the cast from 0 to 10
+ *
+ * The rating is scaled to `weight`, so a 10/10 cast contributes the full
+ * weight. Failures contribute nothing rather than blocking engagement.
+ */
+export class LlmScorer implements RelevanceScorer {
+  name = "llm";
+
+  constructor(
+    private runtime: IAgentRuntime,
+    private weight: number
+  ) {}
+
+  async score(cast: CastWithAuthor): Promise<RelevanceScore> {
+    try {
+      const topics = this.runtime.character.topics ?? [];
+      const prompt = composePrompt({
+        state: {
+          agentName: this.runtime.character.name,
+          topics: topics.length ? topics.join(", ") : "(none specified)",
+          authorUsername: cast.author.username,
+          castText: cast.renderedText,
+        },
+        template:
+          this.runtime.character.templates?.farcasterRelevanceTemplate ??
+          farcasterRelevanceTemplate,
+      });
+
+      const response = await this.runtime.useModel(ModelType.TEXT_SMALL, {
+        prompt,
+      });
+      const parsed = parseKeyValueXml<{ score?: string; reason?: string }>(
+        response
+      );
+
+      const rating = Math.min(10, Math.max(0, Number(parsed?.score) || 0));
+      const score = (rating / 10) * this.weight;
+
+      return {
+        score,
+        reasons: [`model rated ${rating}/10: ${parsed?.reason || "no reason"}`],
+      };
+    } catch (error) {
+      logger.error("Error classifying cast:", String(error));
+      return { score: 0, reasons: [] };
+    }
+  }
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+export class RelevanceEngine {
+  constructor(
+    private scorers: RelevanceScorer[],
+    readonly thresholds: RelevanceThresholds
+  ) {}
+
+  /**
+   * Run every scorer and sum the results
+   */
+  async evaluate(cast: CastWithAuthor): Promise<RelevanceResult> {
+    const breakdown: RelevanceResult["breakdown"] = [];
+
+    for (const scorer of this.scorers) {
+      const result = await scorer.score(cast);
+      breakdown.push({ scorer: scorer.name, ...result });
+    }
+
+    return {
+      score: breakdown.reduce((sum, part) => sum + part.score, 0),
+      reasons: breakdown.flatMap((part) => part.reasons),
+      breakdown,
+    };
+  }
+
+  /**
+   * Whether a result clears the threshold for an action
+   */
+  meetsThreshold(result: RelevanceScore, action: EngagementAction): boolean {
+    return result.score >= this.thresholds[action];
+  }
+}
+
+export interface RelevanceConfig {
+  keywords: string[];
+  thresholds: RelevanceThresholds;
+  allowFids: number[];
+  allowBoost: number;
+  followedBoost: number;
+  llm: boolean;
+  llmWeight: number;
+}
+
+/**
+ * Build the default engine from plugin settings
+ */
+export function createRelevanceEngine(
+  runtime: IAgentRuntime,
+  config: RelevanceConfig,
+  agentFid?: number,
+  hubApiClient?: HubApiClient
+): RelevanceEngine {
+  const scorers: RelevanceScorer[] = [
+    new KeywordScorer(parseKeywordRules(config.keywords)),
+    new AuthorScorer({
+      allowFids: config.allowFids,
+      allowBoost: config.allowBoost,
+      followedBoost: config.followedBoost,
+      agentFid,
+      hubApiClient,
+    }),
+  ];
+
+  if (config.llm) {
+    scorers.push(new LlmScorer(runtime, config.llmWeight));
+  }
+
+  return new RelevanceEngine(scorers, config.thresholds);
+}
@@ -0,0 +1,761 @@
+import { HubEvent, MessageType } from "@farcaster/hub-nodejs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  MAX_CAST_BYTES,
+  THREAD_SUFFIX_BYTES,
+  renderCastText,
+  utf8ByteLength,
+} from "./cast-text";
+import {
+  DirectHubClient,
+  PublishThreadOptions,
+  SubscribeOptions,
+  ThreadPart,
+} from "./hub-client";
+import { CastPage, CastWithAuthor, createHubApiClient } from "./hub-api-client";
+import {
+  AccountState,
+  LocalHubConfig,
+  LocalHubFarcasterService,
+  defaultStatus,
+} from "./service";
+import { MemoryStateStore, StateStore } from "./state-store";
+import { unixToFarcaster } from "./timestamps";
+
+const AGENT_FID = 100;
+
+function mention(hash: string, secondsAgo: number): CastWithAuthor {
+  const author = {
+    fid: 1,
+    username: "alice",
+    displayName: "Alice",
+    pfpUrl: "",
+    bio: "",
+  };
+  return {
+    hash,
+    fid: author.fid,
+    text: "hey ",
+    timestamp: unixToFarcaster(Math.floor(Date.now() / 1000) - secondsAgo),
+    parentHash: null,
+    parentFid: null,
+    parentUrl: null,
+    mentions: [AGENT_FID],
+    mentionsPositions: [4],
+    embeds: [],
+    renderedText: "hey @agent",
+    mentionedUsers: [],
+    author,
+  };
+}
+
+function account(fid: number): AccountState {
+  return {
+    fid,
+    repliedToHashes: new Map(),
+    likedHashes: new Map(),
+    recastedHashes: new Map(),
+    dailyReplies: 0,
+    dailyLikes: 0,
+    dailyRecasts: 0,
+    dailyPosts: 0,
+    lastResetDate: new Date().toDateString(),
+  };
+}
+
+function createRuntime(): IAgentRuntime {
+  return {
+    character: { name: "agent" },
+    getSetting: () => undefined,
+  } as unknown as IAgentRuntime;
+}
+
+/**
+ * Service wired to a hub that serves `pages` of mentions, newest first,
+ * with reply generation and publishing replaced by `publish`
+ */
+function createService(
+  pages: CastWithAuthor[][],
+  publish: (hash: string) => boolean
+) {
+  const service = new LocalHubFarcasterService(createRuntime());
+
+  const hubApiClient = createHubApiClient("http://hub.test");
+  vi.spyOn(hubApiClient.strict(), "getMentionsPage").mockImplementation(
+    async (_fid, options = {}): Promise<CastPage> => {
+      const index = Number(options.pageToken ?? 0);
+      return {
+        items: pages[index] ?? [],
+        nextPageToken: index + 1 < pages.length ? String(index + 1) : null,
+      };
+    }
+  );
+
+  service.hubApiClient = hubApiClient;
+  service.localConfig = {
+    fid: AGENT_FID,
+    maxDailyReplies: 10,
+    maxCastAge: 14 * 86400,
+  } as LocalHubConfig;
+  service.accounts.set(AGENT_FID, account(AGENT_FID));
+
+  // Stand-ins for the model and the hub write
+  const internals = service as unknown as {
+    generateReply: () => Promise<string | null>;
+    respondToMentions: () => Promise<void>;
+  };
+  const generateReply = vi
+    .spyOn(internals, "generateReply")
+    .mockResolvedValue("a reply");
+  const replyToCast = vi
+    .spyOn(service, "replyToCast")
+    .mockImplementation(async (_fid, hash) => publish(hash));
+
+  return {
+    service,
+    generateReply,
+    replyToCast,
+    respondToMentions: () => internals.respondToMentions(),
+    account: service.accounts.get(AGENT_FID)!,
+  };
+}
+
+describe("LocalHubFarcasterService", () => {
+  let service: LocalHubFarcasterService | null = null;
+
+  afterEach(async () => {
+    await service?.stop();
+    service = null;
+    vi.restoreAllMocks();
+  });
+
+  describe("status", () => {
+    it("matches defaultStatus() before it is configured", () => {
+      service = new LocalHubFarcasterService(createRuntime());
+
+      expect(service.getStatus()).toEqual(defaultStatus());
+    });
+
+    it("reports counters per account, the primary one as stats", () => {
+      service = new LocalHubFarcasterService(createRuntime());
+      service.localConfig = { fid: AGENT_FID } as LocalHubConfig;
+      service.accounts.set(AGENT_FID, account(AGENT_FID));
+      service.accounts.set(200, account(200));
+
+      service.recordLike("0x01");
+      service.recordReply("0x02", 200);
+
+      const status = service.getStatus();
+      expect(status.fid).toBe(AGENT_FID);
+      expect(status.stats).toMatchObject({ dailyLikes: 1, dailyReplies: 0 });
+      expect(status.accounts[200]).toMatchObject({
+        dailyLikes: 0,
+        dailyReplies: 1,
+      });
+    });
+
+    it("keeps each agent's state to its own service", async () => {
+      const first = new LocalHubFarcasterService(createRuntime());
+      const second = new LocalHubFarcasterService(createRuntime());
+      for (const each of [first, second]) {
+        each.localConfig = { fid: AGENT_FID } as LocalHubConfig;
+        each.accounts.set(AGENT_FID, account(AGENT_FID));
+      }
+
+      first.markReplied("0x01");
+      first.recordLike("0x02");
+
+      expect(second.getAccount()!.repliedToHashes.size).toBe(0);
+      expect(second.getStatus().stats.dailyLikes).toBe(0);
+      await Promise.all([first.stop(), second.stop()]);
+    });
+  });
+
+  describe("mention handling", () => {
+    it("marks a mention handled when the model declines", async () => {
+      const cast = mention("0xdeclined", 60);
+      const polling = createService([[cast]], () => true);
+      service = polling.service;
+      polling.generateReply.mockResolvedValue(null);
+
+      await polling.respondToMentions();
+
+      expect(polling.replyToCast).not.toHaveBeenCalled();
+      expect(polling.account.repliedToHashes.has(cast.hash)).toBe(true);
+      expect(polling.account.dailyReplies).toBe(0);
+    });
+
+    it("leaves a mention unmarked when generation fails", async () => {
+      const cast = mention("0xfailed", 60);
+      const polling = createService([[cast]], () => true);
+      service = polling.service;
+      polling.generateReply.mockRejectedValue(new Error("model unavailable"));
+
+      await polling.respondToMentions();
+
+      expect(polling.replyToCast).not.toHaveBeenCalled();
+      expect(polling.account.repliedToHashes.has(cast.hash)).toBe(false);
+    });
+
+    it("leaves a mention unmarked when publishing fails", async () => {
+      const cast = mention("0xunpublished", 60);
+      const polling = createService([[cast]], () => false);
+      service = polling.service;
+
+      await polling.respondToMentions();
+
+      expect(polling.replyToCast).toHaveBeenCalledTimes(1);
+      expect(polling.account.repliedToHashes.has(cast.hash)).toBe(false);
+      expect(polling.account.dailyReplies).toBe(0);
+    });
+
+    it("answers a mention once when polling and the stream race", async () => {
+      const cast = mention("0xraced", 60);
+      const polling = createService([[cast]], () => true);
+      service = polling.service;
+      // Slow enough for the second caller to arrive mid-reply
+      polling.generateReply.mockImplementation(
+        () => new Promise((resolve) => setTimeout(() => resolve("a reply"), 20))
+      );
+
+      await Promise.all([
+        polling.respondToMentions(),
+        polling.respondToMentions(),
+      ]);
+
+      expect(polling.replyToCast).toHaveBeenCalledTimes(1);
+      expect(polling.account.dailyReplies).toBe(1);
+    });
+  });
+
+  describe("mention polling", () => {
+    it("retries an older mention that failed behind a newer handled one", async () => {
+      const newer = mention("0xnewer", 60);
+      const older = mention("0xolder", 120);
+      let failOlder = true;
+
+      const polling = createService([[newer], [older]], (hash) =>
+        hash === older.hash ? !failOlder : true
+      );
+      service = polling.service;
+
+      await polling.respondToMentions();
+      expect(polling.account.repliedToHashes.has(newer.hash)).toBe(true);
+      expect(polling.account.repliedToHashes.has(older.hash)).toBe(false);
+
+      failOlder = false;
+      polling.replyToCast.mockClear();
+      await polling.respondToMentions();
+
+      expect(polling.replyToCast).toHaveBeenCalledTimes(1);
+      expect(polling.replyToCast.mock.calls[0][1]).toBe(older.hash);
+      expect(polling.account.repliedToHashes.has(older.hash)).toBe(true);
+      expect(polling.account.dailyReplies).toBe(2);
+    });
+
+    it("picks up mentions left over by the daily limit", async () => {
+      const newer = mention("0xnewer", 60);
+      const older = mention("0xolder", 120);
+
+      const polling = createService([[newer, older]], () => true);
+      service = polling.service;
+      service.localConfig!.maxDailyReplies = 1;
+
+      await polling.respondToMentions();
+      expect(polling.account.repliedToHashes.has(older.hash)).toBe(false);
+
+      // Next day
+      polling.account.dailyReplies = 0;
+      await polling.respondToMentions();
+
+      expect(polling.account.repliedToHashes.has(older.hash)).toBe(true);
+    });
+
+    it("doesn't go past maxCastAge", async () => {
+      const stale = mention("0xstale", 15 * 86400);
+
+      const polling = createService([[stale]], () => true);
+      service = polling.service;
+
+      await polling.respondToMentions();
+
+      expect(polling.replyToCast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("direct posting", () => {
+    /**
+     * Service whose model writes `post`, with `recent` as the agent's
+     * latest casts
+     */
+    function poster(post: string, recent: string[] = []) {
+      const runtime = {
+        ...createRuntime(),
+        character: { name: "agent", topics: ["hubs"] },
+        useModel: vi.fn(
+          async () => `<response><text>${post}</text></response>`
+        ),
+      } as unknown as IAgentRuntime;
+      service = new LocalHubFarcasterService(runtime);
+      service.hubClient = { close: () => {} } as unknown as DirectHubClient;
+      service.hubApiClient = createHubApiClient("http://hub.test");
+      vi.spyOn(service.hubApiClient, "getCastsByFid").mockResolvedValue(
+        recent.map((text, i) => ({
+          ...mention(`0x0${i}`, 3600),
+          renderedText: text,
+        }))
+      );
+      service.localConfig = {
+        fid: AGENT_FID,
+        maxDailyPosts: 1,
+      } as LocalHubConfig;
+      service.accounts.set(AGENT_FID, account(AGENT_FID));
+
+      const publishCast = vi
+        .spyOn(service, "publishCast")
+        .mockResolvedValue(true);
+      const internals = service as unknown as {
+        generateAndPost: () => Promise<void>;
+      };
+      return {
+        runtime,
+        publishCast,
+        generateAndPost: () => internals.generateAndPost(),
+        account: service.accounts.get(AGENT_FID)!,
+      };
+    }
+
+    it("publishes a generated cast and counts it", async () => {
+      const posting = poster("Hubs are the backbone of Farcaster");
+
+      await posting.generateAndPost();
+
+      expect(posting.publishCast).toHaveBeenCalledWith(
+        "Hubs are the backbone of Farcaster",
+        undefined
+      );
+      expect(posting.account.dailyPosts).toBe(1);
+    });
+
+    it("skips a cast too similar to a recent one", async () => {
+      const posting = poster("Running your own hub is underrated, try it", [
+        "Running your own hub is so underrated, try it",
+      ]);
+
+      await posting.generateAndPost();
+
+      expect(posting.publishCast).not.toHaveBeenCalled();
+      expect(posting.account.dailyPosts).toBe(0);
+    });
+
+    it("doesn't generate past the daily post limit", async () => {
+      const posting = poster("gm");
+      posting.account.dailyPosts = 1;
+
+      await posting.generateAndPost();
+
+      expect(posting.runtime.useModel).not.toHaveBeenCalled();
+      expect(posting.publishCast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("mention stream", () => {
+    /**
+     * Polling service that also streams hub events, saving state to a
+     * MemoryStateStore. Streamed casts read back as mentions of the agent.
+     */
+    async function streaming() {
+      const polling = createService([], () => true);
+      service = polling.service;
+
+      let options: SubscribeOptions | null = null;
+      service.hubClient = {
+        subscribeToEvents: async (subscribe: SubscribeOptions) => {
+          options = subscribe;
+          return { close: () => {} };
+        },
+        close: () => {},
+      } as unknown as DirectHubClient;
+      vi.spyOn(service.hubApiClient!, "getCast").mockImplementation(
+        async (_fid, hash) => mention(hash, 60)
+      );
+
+      const store = new MemoryStateStore();
+      const save = vi.spyOn(store, "save");
+      const internals = service as unknown as {
+        stateStores: Map<number, StateStore>;
+        startMentionStream: () => Promise<void>;
+        streamQueue: Promise<void>;
+      };
+      internals.stateStores.set(AGENT_FID, store);
+      await internals.startMentionStream();
+
+      /** Deliver an event and wait for it to be handled */
+      const emit = async (event: HubEvent) => {
+        options!.onEvent(event);
+        await internals.streamQueue;
+      };
+      return { ...polling, emit, save };
+    }
+
+    let nextEventId = 1;
+
+    /**
+     * Merge event for a cast by `fid` mentioning `mentions`
+     */
+    function castEvent(fid: number, mentions: number[], hash = 0xaa): HubEvent {
+      return {
+        id: nextEventId++,
+        mergeMessageBody: {
+          message: {
+            hash: new Uint8Array([hash]),
+            data: {
+              type: MessageType.CAST_ADD,
+              fid,
+              castAddBody: { mentions },
+            },
+          },
+        },
+      } as unknown as HubEvent;
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("answers casts mentioning the agent", async () => {
+      const stream = await streaming();
+
+      await stream.emit(castEvent(1, [AGENT_FID]));
+
+      expect(stream.replyToCast).toHaveBeenCalledTimes(1);
+      expect(stream.account.repliedToHashes.has("0xaa")).toBe(true);
+    });
+
+    it("ignores other casts and the agent's own", async () => {
+      const stream = await streaming();
+
+      await stream.emit(castEvent(1, [42]));
+      await stream.emit(castEvent(AGENT_FID, [AGENT_FID]));
+
+      expect(stream.replyToCast).not.toHaveBeenCalled();
+    });
+
+    it("saves the cursor at most once per interval", async () => {
+      vi.useFakeTimers();
+      const stream = await streaming();
+
+      for (let i = 0; i < 5; i++) await stream.emit(castEvent(1, [42]));
+      await vi.advanceTimersByTimeAsync(5000);
+      for (let i = 0; i < 5; i++) await stream.emit(castEvent(1, [42]));
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(stream.save).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      const last = castEvent(1, [42]);
+      await stream.emit(last);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(stream.save).toHaveBeenCalledTimes(2);
+      expect(stream.save.mock.lastCall![0].cursors.mentionStream).toBe(last.id);
+    });
+
+    it("saves right after a handled mention", async () => {
+      vi.useFakeTimers();
+      const stream = await streaming();
+      await stream.emit(castEvent(1, [42]));
+      await vi.advanceTimersByTimeAsync(5000);
+      stream.save.mockClear();
+
+      await stream.emit(castEvent(1, [AGENT_FID], 0xbb));
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(stream.save).toHaveBeenCalledTimes(1);
+      expect(stream.save.mock.lastCall![0].repliedTo).toHaveProperty("0xbb");
+    });
+  });
+
+  describe("persisted state", () => {
+    /**
+     * Service for the agent account whose state lives in `store`
+     */
+    function persisting(store: StateStore) {
+      service = new LocalHubFarcasterService(createRuntime());
+      service.localConfig = {
+        fid: AGENT_FID,
+        maxCastAge: 14 * 86400,
+      } as LocalHubConfig;
+      service.accounts.set(AGENT_FID, account(AGENT_FID));
+
+      const internals = service as unknown as {
+        stateStores: Map<number, StateStore>;
+        loadState: () => Promise<void>;
+      };
+      internals.stateStores.set(AGENT_FID, store);
+      return { service, loadState: () => internals.loadState() };
+    }
+
+    it("restores dedupe sets and today's counters after a restart", async () => {
+      const store = new MemoryStateStore();
+
+      const before = persisting(store).service;
+      before.markReplied("0xreplied");
+      before.recordLike("0xliked");
+      before.recordRecast("0xrecast");
+      await before.stop();
+
+      const after = persisting(store);
+      await after.loadState();
+      const restored = after.service.getAccount()!;
+
+      expect([...restored.repliedToHashes.keys()]).toEqual(["0xreplied"]);
+      expect([...restored.likedHashes.keys()]).toEqual(["0xliked"]);
+      expect([...restored.recastedHashes.keys()]).toEqual(["0xrecast"]);
+      expect(restored).toMatchObject({ dailyLikes: 1, dailyRecasts: 1 });
+    });
+
+    it("starts a new day's counters from zero", async () => {
+      const store = new MemoryStateStore();
+      await store.save({
+        version: 1,
+        repliedTo: { "0xreplied": Date.now() },
+        liked: {},
+        daily: { date: "Mon Jan 01 2024", replies: 5, likes: 9, posts: 1 },
+        cursors: {},
+      });
+
+      const after = persisting(store);
+      await after.loadState();
+      const restored = after.service.getAccount()!;
+
+      expect(restored.repliedToHashes.has("0xreplied")).toBe(true);
+      expect(restored).toMatchObject({
+        dailyReplies: 0,
+        dailyLikes: 0,
+        dailyPosts: 0,
+      });
+    });
+  });
+
+  describe("composeParts", () => {
+    const USERNAMES = new Map([[1, "alice"]]);
+
+    function composer() {
+      service = new LocalHubFarcasterService(createRuntime());
+      const hubApiClient = createHubApiClient("http://hub.test");
+      vi.spyOn(hubApiClient, "getFidByUsername").mockImplementation(
+        async (username) => (username === "alice" ? 1 : null)
+      );
+      service.hubApiClient = hubApiClient;
+
+      const internals = service as unknown as {
+        composeParts: (text: string) => Promise<ThreadPart[]>;
+      };
+      return (text: string) => internals.composeParts(text);
+    }
+
+    it("keeps text that fits once mentions are stripped in one cast", async () => {
+      const text = `@alice ${"a".repeat(MAX_CAST_BYTES - 1)}`;
+      const parts = await composer()(text);
+
+      expect(parts).toHaveLength(1);
+      expect(parts[0].mentions).toEqual([1]);
+      expect(utf8ByteLength(parts[0].text)).toBe(MAX_CAST_BYTES);
+    });
+
+    it("splits long text into parts with room for numbering", async () => {
+      const sentence = `Ask @alice about ünïcödé ${"word ".repeat(30)}now.`;
+      const parts = await composer()(Array(6).fill(sentence).join(" "));
+
+      expect(parts.length).toBeGreaterThan(1);
+      for (const part of parts) {
+        expect(utf8ByteLength(part.text)).toBeLessThanOrEqual(
+          MAX_CAST_BYTES - THREAD_SUFFIX_BYTES
+        );
+        expect(part.mentions).toEqual([1]);
+        const rendered = renderCastText(
+          {
+            text: part.text,
+            mentions: part.mentions ?? [],
+            mentionsPositions: part.mentionsPositions ?? [],
+          },
+          USERNAMES
+        );
+        expect(rendered).toContain("Ask @alice about");
+      }
+    });
+
+    it("leaves unknown usernames as text", async () => {
+      const [part] = await composer()("gm @nobody");
+
+      expect(part).toEqual({
+        text: "gm @nobody",
+        mentions: [],
+        mentionsPositions: [],
+      });
+    });
+  });
+
+  describe("embeds", () => {
+    const QUOTED = `0x${"3c".repeat(20)}`;
+
+    /**
+     * Configured service whose hub client records published threads
+     */
+    function publisher() {
+      service = new LocalHubFarcasterService(createRuntime());
+      const publishThread = vi.fn<
+        [ThreadPart[], PublishThreadOptions],
+        Promise<string[]>
+      >(async () => []);
+      service.hubClient = {
+        publishThread,
+        getFid: () => AGENT_FID,
+        close: () => {},
+      } as unknown as DirectHubClient;
+      service.hubApiClient = createHubApiClient("http://hub.test");
+      service.localConfig = {
+        fid: AGENT_FID,
+        dryRun: false,
+      } as LocalHubConfig;
+      return { service, publishThread };
+    }
+
+    it("attaches links and the quote to the first cast of a thread", async () => {
+      const { service, publishThread } = publisher();
+      const text = Array(6).fill(`Hubs ${"sync ".repeat(20)}fast.`).join(" ");
+
+      const published = await service.publishCast(text, undefined, {
+        urls: ["https://example.com/post"],
+        quote: { fid: 3, hash: QUOTED },
+      });
+
+      expect(published).toBe(true);
+      const [parts, options] = publishThread.mock.calls[0];
+      expect(parts.length).toBeGreaterThan(1);
+      expect(parts[0].embeds).toEqual([{ url: "https://example.com/post" }]);
+      expect(parts[0].embedsCastIds).toEqual([
+        { fid: 3, hash: new Uint8Array(20).fill(0x3c) },
+      ]);
+      expect(parts.slice(1).every((part) => !part.embeds)).toBe(true);
+      expect(options).toEqual({ numbered: true, parentUrl: undefined });
+    });
+
+    it("describes links and quoted casts for the reply prompt", async () => {
+      const { service } = publisher();
+      vi.spyOn(service.hubApiClient!, "getCast").mockImplementation(
+        async (fid) =>
+          fid === 1 ? { ...mention(QUOTED, 60), renderedText: "gm" } : null
+      );
+      const internals = service as unknown as {
+        describeEmbeds: (cast: CastWithAuthor) => Promise<string>;
+      };
+
+      const described = await internals.describeEmbeds({
+        ...mention("0x01", 60),
+        embeds: [
+          { type: "url", url: "https://example.com/post" },
+          { type: "cast", castId: { fid: 1, hash: QUOTED } },
+          { type: "cast", castId: { fid: 2, hash: QUOTED } },
+        ],
+      });
+
+      expect(described).toBe(
+        [
+          "- link: https://example.com/post",
+          "- quoting @alice: gm",
+          "- quoting a cast that could not be loaded",
+        ].join("\n")
+      );
+      expect(await internals.describeEmbeds(mention("0x02", 60))).toBe(
+        "(none)"
+      );
+    });
+  });
+
+  describe("managed accounts", () => {
+    const OTHER_FID = 200;
+
+    /**
+     * Polling service managing AGENT_FID and OTHER_FID, with `mentions`
+     * of each
+     */
+    function accounts(mentions: Record<number, CastWithAuthor[]>) {
+      const polling = createService([], () => true);
+      service = polling.service;
+      service.accounts.set(OTHER_FID, account(OTHER_FID));
+      vi.mocked(
+        service.hubApiClient!.strict().getMentionsPage
+      ).mockImplementation(async (fid) => ({
+        items: mentions[fid] ?? [],
+        nextPageToken: null,
+      }));
+      return { ...polling, other: service.accounts.get(OTHER_FID)! };
+    }
+
+    it("answers each account's mentions as that account", async () => {
+      const polling = accounts({
+        [AGENT_FID]: [mention("0x01", 60)],
+        [OTHER_FID]: [mention("0x02", 60)],
+      });
+
+      await polling.respondToMentions();
+
+      expect(polling.replyToCast.mock.calls).toEqual([
+        [1, "0x01", "a reply", AGENT_FID],
+        [1, "0x02", "a reply", OTHER_FID],
+      ]);
+      expect(polling.account.repliedToHashes.has("0x02")).toBe(false);
+      expect(polling.other.repliedToHashes.has("0x02")).toBe(true);
+    });
+
+    it("never replies to another managed account", async () => {
+      const polling = accounts({
+        [OTHER_FID]: [{ ...mention("0x01", 60), fid: AGENT_FID }],
+      });
+
+      await polling.respondToMentions();
+
+      expect(polling.replyToCast).not.toHaveBeenCalled();
+    });
+
+    it("keeps a daily quota per account", async () => {
+      const polling = accounts({
+        [AGENT_FID]: [mention("0x01", 60)],
+        [OTHER_FID]: [mention("0x02", 60)],
+      });
+      polling.account.dailyReplies = 10;
+
+      await polling.respondToMentions();
+
+      expect(service!.remainingQuota("reply")).toBe(0);
+      expect(service!.remainingQuota("reply", OTHER_FID)).toBe(9);
+      expect(polling.replyToCast).toHaveBeenCalledTimes(1);
+      expect(polling.replyToCast.mock.calls[0][3]).toBe(OTHER_FID);
+    });
+
+    it("publishes through the signing account's client", async () => {
+      service = new LocalHubFarcasterService(createRuntime());
+      const other = {
+        getFid: () => OTHER_FID,
+        publishThread: vi.fn(async () => []),
+      };
+      const as = vi.fn(() => other);
+      service.hubClient = { as, close: () => {} } as unknown as DirectHubClient;
+      service.hubApiClient = createHubApiClient("http://hub.test");
+      service.localConfig = { dryRun: false } as LocalHubConfig;
+
+      const replied = await service.replyToCast(1, "0x01", "hi", OTHER_FID);
+
+      expect(replied).toBe(true);
+      expect(as).toHaveBeenCalledWith(OTHER_FID);
+      expect(other.publishThread).toHaveBeenCalledWith([expect.anything()], {
+        numbered: false,
+        parentFid: 1,
+        parentHash: "0x01",
+      });
+    });
+  });
+});
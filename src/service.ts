@@ -0,0 +1,2094 @@
+/**
+ * Local Hub Farcaster Service
+ *
+ * One instance per agent runtime. Owns the hub clients, configuration,
+ * daily quotas and the interaction/posting loops for that agent, so several
+ * characters can run in the same process without sharing state.
+ *
+ * An agent can manage several Farcaster accounts (FARCASTER_SIGNERS). Each
+ * managed FID gets its own mention monitoring, dedupe sets and daily quotas;
+ * channel scanning and original posts use the primary account.
+ */
+
+import {
+  IAgentRuntime,
+  ModelType,
+  Service,
+  composePrompt,
+  parseKeyValueXml,
+} from "@elizaos/core";
+import {
+  HubEvent,
+  MessageType,
+  bytesToHexString,
+} from "@farcaster/hub-nodejs";
+import { hexToBytes } from "@noble/hashes/utils";
+import {
+  ConnectionState,
+  DirectHubClient,
+  EventSubscription,
+  ThreadPart,
+  createHubClient,
+} from "./hub-client";
+import {
+  HubApiClient,
+  createHubApiClient,
+  CastWithAuthor,
+} from "./hub-api-client";
+import { getHubMessageCount } from "./hub-schemas";
+import { HubError } from "./errors";
+import { HubMonitor, HubMonitorConfig, HubStatus } from "./hub-monitor";
+import { UserCacheOptions, UserCacheStats } from "./user-cache";
+import { HttpClient, HttpClientOptions } from "./http";
+import {
+  MAX_CAST_BYTES,
+  THREAD_SUFFIX_BYTES,
+  composeCastText,
+  splitCastText,
+  utf8ByteLength,
+} from "./cast-text";
+import { ChannelInfo, ChannelRegistry } from "./channel-registry";
+import { ChannelScheduler, ChannelVisit } from "./channel-scheduler";
+import {
+  PersistedState,
+  StateStore,
+  StateStoreBackend,
+  createStateStore,
+} from "./state-store";
+import {
+  RelevanceConfig,
+  RelevanceEngine,
+  createRelevanceEngine,
+} from "./relevance";
+import {
+  StorageMonitor,
+  StorageReport,
+  StorageThresholds,
+  StoreName,
+} from "./storage-monitor";
+import { farcasterPostTemplate, farcasterReplyTemplate } from "./templates";
+import { farcasterToUnix, unixToFarcaster } from "./timestamps";
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+const logger = {
+  info: (...args: unknown[]) =>
+    console.log("[LocalHubFarcaster]", ...args),
+  error: (...args: unknown[]) =>
+    console.error("[LocalHubFarcaster]", ...args),
+  warn: (...args: unknown[]) =>
+    console.warn("[LocalHubFarcaster]", ...args),
+};
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface LocalHubConfig {
+  hubHttpUrl: string;
+  hubGrpcUrl: string;
+  hubSsl: boolean;
+  fid: number;
+  privateKey: string;
+  /** Check signer keys against the hub at startup */
+  verifySigner: boolean;
+  dryRun: boolean;
+  enableInteractions: boolean;
+  enableDirectPosting: boolean;
+  enableMentionStream: boolean;
+  postToChannels: boolean;
+  interactionIntervalMin: number;
+  interactionIntervalMax: number;
+  postIntervalMin: number;
+  postIntervalMax: number;
+  maxDailyReplies: number;
+  maxDailyLikes: number;
+  maxDailyPosts: number;
+  maxDailyRecasts: number;
+  scanKeywords: string[];
+  scanChannels: string[];
+  channelsFile: string;
+  maxCastAge: number; // seconds
+  stateStore: StateStoreBackend;
+  stateFile: string;
+  relevance: Omit<RelevanceConfig, "keywords">;
+  /** Additional managed accounts: FID -> signer private key */
+  signers: Record<number, string>;
+  storageThresholds: StorageThresholds;
+  storageCheckInterval: number; // ms
+  /** Read/write hub lists (hubHttpUrl/hubGrpcUrl first) and lag limits */
+  hubs: HubMonitorConfig;
+  userCache: UserCacheOptions;
+  /** Timeouts, limits and retries for hub HTTP requests */
+  http: Omit<HttpClientOptions, "fetch" | "signal">;
+}
+
+/**
+ * Writes limited per account per day
+ */
+export type QuotaAction = "post" | "reply" | "like" | "recast";
+
+/**
+ * Runtime state of one managed account (persisted through the state store)
+ *
+ * The maxDaily* limits in LocalHubConfig apply to each account separately.
+ */
+export interface AccountState {
+  fid: number;
+  repliedToHashes: Map<string, number>; // hash -> Unix ms
+  likedHashes: Map<string, number>; // hash -> Unix ms
+  recastedHashes: Map<string, number>; // hash -> Unix ms
+  dailyReplies: number;
+  dailyLikes: number;
+  dailyRecasts: number;
+  dailyPosts: number;
+  lastResetDate: string;
+}
+
+/**
+ * Embeds for LocalHubFarcasterService.publishCast()
+ */
+export interface CastEmbeds {
+  /** Link embeds (pages, images, videos) */
+  urls?: string[];
+  /** Cast to quote */
+  quote?: { fid: number; hash: string };
+}
+
+/**
+ * Reconnect backoff bounds for the mention event stream (ms)
+ */
+const STREAM_RECONNECT_MIN = 1000;
+const STREAM_RECONNECT_MAX = 5 * 60 * 1000;
+
+/**
+ * Longest wait between interaction cycles while hub reads are failing (ms)
+ */
+const HUB_BACKOFF_MAX = 60 * 60 * 1000;
+
+/**
+ * Mentions per page when polling back to maxCastAge
+ */
+const MENTION_PAGE_SIZE = 100;
+
+/**
+ * Delay before writing state after a change, so bursts are batched (ms)
+ */
+const STATE_SAVE_DELAY = 2000;
+
+/**
+ * Least time between saves for the mention stream cursor alone (ms). Every
+ * hub message is an event; a restart replays at most this much.
+ */
+const STREAM_CURSOR_SAVE_INTERVAL = 60 * 1000;
+
+/**
+ * Maximum number of ancestor casts to include as conversation context
+ */
+const MAX_THREAD_DEPTH = 5;
+
+/**
+ * Maximum number of existing replies to the mention shown to the model
+ */
+const MAX_THREAD_REPLIES = 10;
+
+/**
+ * Number of our own recent casts fed to the model and checked for duplicates
+ */
+const RECENT_POSTS_CONTEXT = 10;
+
+/**
+ * Word-overlap similarity at or above which a new post counts as a duplicate
+ */
+const DUPLICATE_SIMILARITY = 0.6;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getSetting(
+  runtime: IAgentRuntime,
+  key: string,
+  defaultVal: string = ""
+): string {
+  const val = runtime.getSetting(key) || process.env[key] || defaultVal;
+  return String(val);
+}
+
+function formatCharacterBio(runtime: IAgentRuntime): string {
+  const bio = runtime.character.bio;
+  return Array.isArray(bio) ? bio.join("\n") : bio || "";
+}
+
+function formatCharacterStyle(runtime: IAgentRuntime): string {
+  const style = runtime.character.style;
+  return [...(style?.all ?? []), ...(style?.post ?? [])]
+    .map((line) => `- ${line}`)
+    .join("\n");
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter((word) => word.length > 2)
+  );
+}
+
+/**
+ * Jaccard similarity of the word sets of two texts (0 to 1)
+ */
+function textSimilarity(a: string, b: string): number {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Give a bare host:port gRPC address an explicit scheme, so its TLS setting
+ * travels with it through failover
+ */
+function withGrpcScheme(hubUrl: string, ssl: boolean): string {
+  if (hubUrl.includes("://")) return hubUrl;
+  return `${ssl ? "https" : "http"}://${hubUrl}`;
+}
+
+function createAccountState(fid: number): AccountState {
+  return {
+    fid,
+    repliedToHashes: new Map(),
+    likedHashes: new Map(),
+    recastedHashes: new Map(),
+    dailyReplies: 0,
+    dailyLikes: 0,
+    dailyRecasts: 0,
+    dailyPosts: 0,
+    lastResetDate: new Date().toDateString(),
+  };
+}
+
+/**
+ * Parse FARCASTER_SIGNERS: a JSON map of FID -> private key, or a list of
+ * { fid, privateKey } objects. Invalid entries are skipped.
+ */
+function parseSigners(raw: string): Record<number, string> {
+  if (!raw.trim()) return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    logger.error("FARCASTER_SIGNERS is not valid JSON:", String(error));
+    return {};
+  }
+
+  const entries: Array<[unknown, unknown]> = Array.isArray(data)
+    ? data.map((entry) => [entry?.fid, entry?.privateKey])
+    : Object.entries((data ?? {}) as Record<string, unknown>);
+
+  const signers: Record<number, string> = {};
+  for (const [fid, privateKey] of entries) {
+    const parsed = Number(fid);
+    if (!Number.isInteger(parsed) || parsed <= 0 || !privateKey) {
+      logger.warn(`Ignoring invalid FARCASTER_SIGNERS entry for FID ${fid}`);
+      continue;
+    }
+    signers[parsed] = String(privateKey);
+  }
+
+  return signers;
+}
+
+/**
+ * State file for an account: the configured file for the primary account,
+ * the same name with a -<fid> suffix for the others
+ */
+function accountStateFile(
+  config: LocalHubConfig,
+  fid: number
+): string | undefined {
+  if (!config.stateFile) return undefined;
+  if (fid === config.fid) return config.stateFile;
+  return config.stateFile.replace(/(\.json)?$/i, `-${fid}$1`);
+}
+
+function loadConfig(runtime: IAgentRuntime): LocalHubConfig | null {
+  const hubHttpUrl = getSetting(
+    runtime,
+    "FARCASTER_HUB_HTTP_URL",
+    "http://localhost:3381"
+  );
+  const hubSsl =
+    getSetting(runtime, "FARCASTER_HUB_SSL", "false") === "true";
+  // TLS is picked per hub from the URL scheme; FARCASTER_HUB_SSL only
+  // supplies one for a bare host:port here
+  const hubGrpcUrl = withGrpcScheme(
+    getSetting(runtime, "FARCASTER_HUB_URL", "localhost:3383"),
+    hubSsl
+  );
+  const fid = parseInt(getSetting(runtime, "FARCASTER_FID", "0"));
+  const privateKey = getSetting(runtime, "FARCASTER_PRIVATE_KEY", "");
+  // Extra accounts managed by the same agent
+  const signers = parseSigners(getSetting(runtime, "FARCASTER_SIGNERS", ""));
+  const dryRun =
+    getSetting(runtime, "FARCASTER_DRY_RUN", "false") === "true";
+  const verifySigner =
+    getSetting(runtime, "FARCASTER_VERIFY_SIGNER", "true") !== "false";
+
+  const enableInteractions =
+    getSetting(runtime, "ENABLE_INTERACTIONS", "true") !== "false";
+  const enableDirectPosting =
+    getSetting(runtime, "ENABLE_DIRECT_POSTING", "false") === "true";
+  const enableMentionStream =
+    getSetting(runtime, "ENABLE_MENTION_STREAM", "false") === "true";
+  const postToChannels =
+    getSetting(runtime, "POST_TO_CHANNELS", "false") === "true";
+
+  // Intervals in milliseconds (config is in minutes)
+  const interactionIntervalMin =
+    parseInt(getSetting(runtime, "INTERACTION_INTERVAL_MIN", "10")) *
+    60 *
+    1000;
+  const interactionIntervalMax =
+    parseInt(getSetting(runtime, "INTERACTION_INTERVAL_MAX", "30")) *
+    60 *
+    1000;
+  const postIntervalMin =
+    parseInt(getSetting(runtime, "CAST_INTERVAL_MIN", "240")) * 60 * 1000;
+  const postIntervalMax =
+    parseInt(getSetting(runtime, "CAST_INTERVAL_MAX", "480")) * 60 * 1000;
+
+  // Daily limits
+  const maxDailyReplies = parseInt(
+    getSetting(runtime, "MAX_DAILY_REPLIES", "15")
+  );
+  const maxDailyLikes = parseInt(getSetting(runtime, "MAX_DAILY_LIKES", "30"));
+  const maxDailyPosts = parseInt(getSetting(runtime, "MAX_DAILY_POSTS", "3"));
+  const maxDailyRecasts = parseInt(
+    getSetting(runtime, "MAX_DAILY_RECASTS", "5")
+  );
+
+  // Max cast age in seconds (default 14 days)
+  const maxCastAge = parseInt(
+    getSetting(runtime, "MAX_CAST_AGE_DAYS", "14")
+  ) * 86400;
+
+  // Keywords and channels to scan. Keywords fall back to the character's
+  // topics, then to the original defaults.
+  const topics = runtime.character.topics ?? [];
+  const scanKeywords = getSetting(
+    runtime,
+    "SCAN_KEYWORDS",
+    topics.length
+      ? topics.join(",")
+      : "ethereum,defi,web3,nft,crypto,blockchain"
+  )
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+  const scanChannels = getSetting(
+    runtime,
+    "SCAN_CHANNELS",
+    "ethereum,base,farcaster,dev"
+  )
+    .split(",")
+    .map((c) => c.trim())
+    .filter(Boolean);
+  // Optional JSON/YAML list of channel ids, parent URLs and descriptions
+  const channelsFile = getSetting(runtime, "FARCASTER_CHANNELS_FILE", "");
+
+  // Where dedupe sets, counters and cursors are persisted
+  const stateStore = getSetting(
+    runtime,
+    "FARCASTER_STATE_STORE",
+    "cache"
+  ) as StateStoreBackend;
+  const stateFile = getSetting(runtime, "FARCASTER_STATE_FILE", "");
+
+  // Relevance scoring: per-action thresholds and author/model boosts
+  const relevance = {
+    thresholds: {
+      like: parseFloat(getSetting(runtime, "RELEVANCE_THRESHOLD_LIKE", "1")),
+      recast: parseFloat(
+        getSetting(runtime, "RELEVANCE_THRESHOLD_RECAST", "3")
+      ),
+      reply: parseFloat(getSetting(runtime, "RELEVANCE_THRESHOLD_REPLY", "0")),
+    },
+    allowFids: getSetting(runtime, "RELEVANCE_ALLOW_FIDS", "")
+      .split(",")
+      .map((f) => parseInt(f.trim()))
+      .filter((f) => !isNaN(f)),
+    allowBoost: parseFloat(getSetting(runtime, "RELEVANCE_ALLOW_BOOST", "2")),
+    followedBoost: parseFloat(
+      getSetting(runtime, "RELEVANCE_FOLLOWED_BOOST", "1")
+    ),
+    llm: getSetting(runtime, "RELEVANCE_LLM", "false") === "true",
+    llmWeight: parseFloat(getSetting(runtime, "RELEVANCE_LLM_WEIGHT", "3")),
+  };
+
+  // Storage usage ratios at which the loops warn, throttle and pause
+  const storageThresholds = {
+    warn: parseFloat(getSetting(runtime, "STORAGE_WARN_RATIO", "0.8")),
+    throttle: parseFloat(getSetting(runtime, "STORAGE_THROTTLE_RATIO", "0.9")),
+    pause: parseFloat(getSetting(runtime, "STORAGE_PAUSE_RATIO", "0.98")),
+  };
+  const storageCheckInterval =
+    parseInt(getSetting(runtime, "STORAGE_CHECK_INTERVAL_MIN", "60")) *
+    60 *
+    1000;
+
+  // Fallback hubs, used when the primary is down, syncing or lagging
+  const listSetting = (key: string) =>
+    getSetting(runtime, key, "")
+      .split(",")
+      .map((url) => url.trim())
+      .filter(Boolean);
+  const hubs: HubMonitorConfig = {
+    readHubs: [hubHttpUrl, ...listSetting("FARCASTER_READ_HUBS")],
+    writeHubs: [hubGrpcUrl, ...listSetting("FARCASTER_WRITE_HUBS")],
+    referenceHub:
+      getSetting(runtime, "FARCASTER_REFERENCE_HUB_URL", "") || undefined,
+    maxLagRatio: parseFloat(
+      getSetting(runtime, "FARCASTER_HUB_MAX_LAG_RATIO", "0.01")
+    ),
+    maxBlockLag: parseInt(
+      getSetting(runtime, "FARCASTER_HUB_MAX_BLOCK_LAG", "100")
+    ),
+    checkInterval:
+      parseInt(getSetting(runtime, "FARCASTER_HUB_CHECK_INTERVAL_SEC", "60")) *
+      1000,
+  };
+
+  // Hub HTTP requests: a hung hub times out instead of stalling the loops
+  const http = {
+    timeout:
+      parseFloat(getSetting(runtime, "FARCASTER_HTTP_TIMEOUT_SEC", "10")) *
+      1000,
+    maxInFlight: parseInt(
+      getSetting(runtime, "FARCASTER_HTTP_MAX_IN_FLIGHT", "8")
+    ),
+    requestsPerSecond: parseFloat(
+      getSetting(runtime, "FARCASTER_HTTP_RATE_LIMIT", "20")
+    ),
+    maxRetries: parseInt(
+      getSetting(runtime, "FARCASTER_HTTP_MAX_RETRIES", "2")
+    ),
+  };
+
+  // Profiles of cast authors and mentioned users
+  const userCache: UserCacheOptions = {
+    maxSize: parseInt(getSetting(runtime, "FARCASTER_USER_CACHE_SIZE", "5000")),
+    ttl:
+      parseInt(getSetting(runtime, "FARCASTER_USER_CACHE_TTL_MIN", "60")) *
+      60 *
+      1000,
+  };
+
+  if (!fid) {
+    logger.error("Missing required config: FARCASTER_FID");
+    return null;
+  }
+
+  if (!privateKey) {
+    logger.error("Missing required config: FARCASTER_PRIVATE_KEY");
+    return null;
+  }
+
+  return {
+    hubHttpUrl,
+    hubGrpcUrl,
+    hubSsl,
+    fid,
+    privateKey,
+    verifySigner,
+    dryRun,
+    enableInteractions,
+    enableDirectPosting,
+    enableMentionStream,
+    postToChannels,
+    interactionIntervalMin,
+    interactionIntervalMax,
+    postIntervalMin,
+    postIntervalMax,
+    maxDailyReplies,
+    maxDailyLikes,
+    maxDailyPosts,
+    maxDailyRecasts,
+    maxCastAge,
+    scanKeywords,
+    scanChannels,
+    channelsFile,
+    stateStore,
+    stateFile,
+    relevance,
+    signers,
+    storageThresholds,
+    storageCheckInterval,
+    hubs,
+    userCache,
+    http,
+  };
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+export interface DailyStats {
+  dailyReplies: number;
+  dailyLikes: number;
+  dailyRecasts: number;
+  dailyPosts: number;
+}
+
+/**
+ * Service state as exposed by the provider
+ */
+export interface ServiceStatus {
+  /** Primary account, undefined before configuration */
+  fid: number | undefined;
+  hubConnected: boolean;
+  hubReads: {
+    state: "ok" | "degraded";
+    consecutiveFailures: number;
+    lastError: string | null;
+  };
+  grpcConnection: ConnectionState;
+  mentionStream: boolean;
+  channels: ReturnType<ChannelScheduler["getStats"]>;
+  hubs: HubStatus | null;
+  userCache: UserCacheStats | null;
+  storage: Record<number, StorageReport>;
+  /** Primary account's counters */
+  stats: DailyStats;
+  accounts: Record<number, DailyStats>;
+}
+
+/**
+ * Status of a service that isn't running (or isn't configured)
+ */
+export function defaultStatus(): ServiceStatus {
+  return {
+    fid: undefined,
+    hubConnected: false,
+    hubReads: { state: "ok", consecutiveFailures: 0, lastError: null },
+    grpcConnection: "idle",
+    mentionStream: false,
+    channels: {},
+    hubs: null,
+    userCache: null,
+    storage: {},
+    stats: { dailyReplies: 0, dailyLikes: 0, dailyRecasts: 0, dailyPosts: 0 },
+    accounts: {},
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class LocalHubFarcasterService extends Service {
+  static serviceType = "local-hub-farcaster";
+
+  capabilityDescription =
+    "Reads from and writes to Farcaster through a local Snapchain/Hubble hub";
+
+  hubClient: DirectHubClient | null = null;
+  hubApiClient: HubApiClient | null = null;
+  localConfig: LocalHubConfig | null = null;
+  relevanceEngine: RelevanceEngine | null = null;
+  channelScheduler: ChannelScheduler | null = null;
+  channelRegistry: ChannelRegistry | null = null;
+  storageMonitor: StorageMonitor | null = null;
+  hubMonitor: HubMonitor | null = null;
+  /** Managed accounts by FID, primary account first */
+  accounts: Map<number, AccountState> = new Map();
+
+  private interactionTimer: NodeJS.Timeout | null = null;
+  private postTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  /** Aborted on stop, cancelling hub HTTP requests in flight */
+  private abortController = new AbortController();
+
+  // Mention event stream
+  private mentionStream: EventSubscription | null = null;
+  private streamReconnectTimer: NodeJS.Timeout | null = null;
+  private streamReconnectDelay = STREAM_RECONNECT_MIN;
+  private lastEventId: number | null = null;
+  /** Unix ms of the last state save, for throttling cursor-only saves */
+  private stateSavedAt = 0;
+  private streamQueue: Promise<void> = Promise.resolve();
+  /** Bumped per subscription, so events from a replaced one are ignored */
+  private streamGeneration = 0;
+  private streamSubscribing = false;
+  /** "fid:hash" of mentions being answered, so polling and the stream don't both reply */
+  private mentionsInFlight: Set<string> = new Set();
+
+  // Hub read failures, for backing off the interaction loop
+  private hubFailures = 0;
+  private lastHubError: HubError | null = null;
+
+  // Persistence, one store per managed account
+  private stateStores: Map<number, StateStore> = new Map();
+  private stateSaveTimer: NodeJS.Timeout | null = null;
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime);
+  }
+
+  static async start(
+    runtime: IAgentRuntime
+  ): Promise<LocalHubFarcasterService> {
+    const service = new LocalHubFarcasterService(runtime);
+    await service.initializeFarcaster();
+    return service;
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = runtime.getService<LocalHubFarcasterService>(
+      LocalHubFarcasterService.serviceType
+    );
+    await service?.stop();
+  }
+
+  async stop(): Promise<void> {
+    await this.stopFarcaster();
+  }
+
+  // ==========================================================================
+  // INITIALIZATION
+  // ==========================================================================
+
+  private async initializeFarcaster(): Promise<void> {
+    const config = loadConfig(this.runtime);
+    if (!config) return;
+
+    this.localConfig = config;
+
+    logger.info(`Initializing with local hub - FID: ${config.fid}`);
+    logger.info(`Hub HTTP: ${config.hubHttpUrl}`);
+    logger.info(`Hub gRPC: ${config.hubGrpcUrl}`);
+    logger.info(`Keywords: ${config.scanKeywords.join(", ")}`);
+    logger.info(
+      `Relevance thresholds: like ${config.relevance.thresholds.like}, recast ${config.relevance.thresholds.recast}, reply ${config.relevance.thresholds.reply}`
+    );
+    logger.info(`Channels: ${config.scanChannels.join(", ")}`);
+    logger.info(`Max cast age: ${config.maxCastAge / 86400} days`);
+    logger.info(`Dry run: ${config.dryRun}`);
+    logger.info(`State store: ${config.stateStore}`);
+
+    const http = new HttpClient({
+      ...config.http,
+      signal: this.abortController.signal,
+    });
+    this.hubApiClient = createHubApiClient(config.hubHttpUrl, {
+      http,
+      userCache: config.userCache,
+    });
+    this.hubClient = createHubClient({
+      hubUrl: config.hubGrpcUrl,
+      fid: config.fid,
+      privateKey: config.privateKey,
+      signers: config.signers,
+    });
+    this.hubClient.on("stateChange", (state, previous) => {
+      logger.info(`Hub gRPC connection: ${previous} -> ${state}`);
+    });
+    this.hubClient.on("hubChange", () => {
+      // Event ids are per hub: resubscribe from the new hub's live tip
+      this.lastEventId = null;
+      this.scheduleStateSave();
+      this.restartMentionStream();
+    });
+
+    const fids = this.hubClient.getManagedFids();
+    if (fids.length > 1) {
+      logger.info(`Managed accounts: ${fids.join(", ")}`);
+    }
+
+    // Channel ids/URLs; the scheduler is keyed by the registry's ids
+    const channelRegistry = new ChannelRegistry(this.hubApiClient);
+    this.channelRegistry = channelRegistry;
+    if (config.channelsFile) {
+      try {
+        await channelRegistry.loadFile(config.channelsFile);
+      } catch (error) {
+        logger.error(
+          `Error loading channels file ${config.channelsFile}:`,
+          String(error)
+        );
+      }
+    }
+    const scanChannelIds = config.scanChannels.map(
+      (channel) => channelRegistry.register(channel).id
+    );
+    this.channelScheduler = new ChannelScheduler(scanChannelIds);
+
+    for (const fid of fids) {
+      this.accounts.set(fid, createAccountState(fid));
+      this.stateStores.set(
+        fid,
+        createStateStore(
+          this.runtime,
+          config.stateStore,
+          fid,
+          accountStateFile(config, fid)
+        )
+      );
+    }
+    await this.loadState();
+
+    this.relevanceEngine = createRelevanceEngine(
+      this.runtime,
+      { keywords: config.scanKeywords, ...config.relevance },
+      config.fid,
+      this.hubApiClient
+    );
+
+    // Pick healthy hubs before the first reads and writes
+    this.hubMonitor = new HubMonitor(
+      config.hubs,
+      this.hubApiClient,
+      this.hubClient,
+      http
+    );
+    const hubStatus = await this.hubMonitor.check();
+    for (const hub of hubStatus.hubs) {
+      logger.info(
+        `Hub ${hub.url} (${hub.role}): ${hub.healthy ? "healthy" : hub.reason}`
+      );
+    }
+    this.hubMonitor.start();
+
+    // Test hub connection
+    const hubInfo = await this.hubApiClient.getInfo();
+    if (hubInfo) {
+      const numMessages = getHubMessageCount(hubInfo) ?? "unknown";
+      logger.info(`Hub connected - ${numMessages} messages`);
+
+      const channels = await channelRegistry.validateAll();
+      const valid = channels.filter((channel) => channel.valid);
+      logger.info(
+        `Channels found on hub: ${valid.map((c) => c.id).join(", ") || "none"}`
+      );
+    } else {
+      logger.warn("Could not connect to hub - check FARCASTER_HUB_HTTP_URL");
+    }
+
+    if (config.verifySigner) {
+      try {
+        await this.verifySigners(config);
+      } catch (error) {
+        // The monitor, HTTP layer and connections are already running
+        await this.stopFarcaster();
+        throw error;
+      }
+    }
+
+    const storageMonitor = new StorageMonitor(
+      this.hubClient,
+      this.hubApiClient,
+      config.storageThresholds,
+      config.storageCheckInterval
+    );
+    this.storageMonitor = storageMonitor;
+    for (const fid of this.accounts.keys()) {
+      const report = await storageMonitor.check(fid);
+      if (report) {
+        logger.info(
+          `Storage for FID ${fid}: ${report.units} units, ${report.stores.map((usage) => `${usage.store} ${usage.used}/${usage.limit}`).join(", ")}`
+        );
+      }
+    }
+
+    // Start interaction loop
+    if (config.enableInteractions && !config.dryRun) {
+      this.startInteractionLoop();
+
+      // Real-time mentions; polling stays on as a catch-up fallback
+      if (config.enableMentionStream) {
+        await this.startMentionStream();
+      }
+    }
+
+    // Start posting loop
+    if (config.enableDirectPosting && !config.dryRun) {
+      this.startPostLoop();
+    }
+
+    logger.info("Service initialized successfully (NO NEYNAR)");
+  }
+
+  /**
+   * Check every managed account's signer key against the hub
+   *
+   * A key the hub doesn't know would otherwise only surface as an opaque
+   * submit error on the first write, so this throws (outside dry run).
+   * Unreachable hubs only log a warning.
+   */
+  private async verifySigners(config: LocalHubConfig): Promise<void> {
+    if (!this.hubClient) return;
+
+    const problems: string[] = [];
+    for (const fid of this.accounts.keys()) {
+      const check = await this.hubClient.as(fid).checkSigner();
+
+      if (check.status === "active") {
+        logger.info(`Signer for FID ${fid} is registered: ${check.publicKey}`);
+      } else if (check.status === "unknown") {
+        logger.warn(check.diagnosis);
+      } else {
+        logger.error(check.diagnosis);
+        problems.push(check.diagnosis);
+      }
+    }
+
+    if (problems.length === 0) return;
+    if (config.dryRun) {
+      logger.warn("Dry run - continuing despite signer problems");
+      return;
+    }
+    throw new Error(
+      `Farcaster signer check failed (set FARCASTER_VERIFY_SIGNER=false to skip):\n${problems.join("\n")}`
+    );
+  }
+
+  /**
+   * Reset quota counters at the start of a new day
+   *
+   * Acted-on hashes are kept (so we never re-like or re-reply) and only pruned
+   * once they are older than maxCastAge, after which the casts are skipped
+   * by age anyway.
+   */
+  resetDailyCountersIfNeeded(): void {
+    const today = new Date().toDateString();
+    const config = this.localConfig;
+    if (!config) return;
+
+    for (const account of this.accounts.values()) {
+      if (account.lastResetDate === today) continue;
+
+      account.dailyReplies = 0;
+      account.dailyLikes = 0;
+      account.dailyRecasts = 0;
+      account.dailyPosts = 0;
+      account.lastResetDate = today;
+      if (account.fid === config.fid) this.channelScheduler?.resetDaily();
+
+      const cutoff = Date.now() - config.maxCastAge * 1000;
+      for (const hashes of [
+        account.repliedToHashes,
+        account.likedHashes,
+        account.recastedHashes,
+      ]) {
+        for (const [hash, actedAt] of hashes) {
+          if (actedAt < cutoff) hashes.delete(hash);
+        }
+      }
+
+      this.scheduleStateSave();
+      logger.info(`Daily counters reset for FID ${account.fid}`);
+    }
+  }
+
+  /**
+   * Daily limit for writes to a store, scaled down as the account's storage
+   * fills up (0 once it is full)
+   */
+  private dailyLimit(max: number, store: StoreName, fid?: number): number {
+    const account = this.getAccount(fid);
+    if (!account || !this.storageMonitor) return max;
+    return Math.floor(max * this.storageMonitor.quotaScale(account.fid, store));
+  }
+
+  /**
+   * Writes of a kind the account may still make today, after storage
+   * scaling (0 when the limit is reached or the store is full)
+   */
+  remainingQuota(action: QuotaAction, fid?: number): number {
+    const config = this.localConfig;
+    const account = this.getAccount(fid);
+    if (!config || !account) return 0;
+
+    // [limit, used today, store written to]
+    const quotas: Record<QuotaAction, [number, number, StoreName]> = {
+      post: [config.maxDailyPosts, account.dailyPosts, "casts"],
+      reply: [config.maxDailyReplies, account.dailyReplies, "casts"],
+      like: [config.maxDailyLikes, account.dailyLikes, "reactions"],
+      recast: [config.maxDailyRecasts, account.dailyRecasts, "reactions"],
+    };
+    const [max, used, store] = quotas[action];
+
+    return Math.max(0, this.dailyLimit(max, store, account.fid) - used);
+  }
+
+  /**
+   * Whether the account may write to a store at all: false once it is at
+   * the "pause" level. For writes without a daily quota, such as follows.
+   */
+  canWriteTo(store: StoreName, fid?: number): boolean {
+    const account = this.getAccount(fid);
+    if (!account || !this.storageMonitor) return true;
+    return this.storageMonitor.quotaScale(account.fid, store) > 0;
+  }
+
+  /**
+   * State of a managed account, the primary account by default
+   */
+  getAccount(fid?: number): AccountState | undefined {
+    return this.accounts.get(fid ?? this.localConfig?.fid ?? 0);
+  }
+
+  /**
+   * Remember a cast as handled, whether or not a reply was published
+   */
+  markReplied(hash: string, fid?: number): void {
+    this.getAccount(fid)?.repliedToHashes.set(hash, Date.now());
+    this.scheduleStateSave();
+  }
+
+  /**
+   * Record a published reply against today's quota
+   */
+  recordReply(hash: string, fid?: number): void {
+    const account = this.getAccount(fid);
+    if (!account) return;
+    this.markReplied(hash, fid);
+    account.dailyReplies++;
+  }
+
+  /**
+   * Record a like against today's quota
+   */
+  recordLike(hash: string, fid?: number): void {
+    const account = this.getAccount(fid);
+    if (!account) return;
+    account.likedHashes.set(hash, Date.now());
+    account.dailyLikes++;
+    this.scheduleStateSave();
+  }
+
+  /**
+   * Record a recast against today's quota
+   */
+  recordRecast(hash: string, fid?: number): void {
+    const account = this.getAccount(fid);
+    if (!account) return;
+    account.recastedHashes.set(hash, Date.now());
+    account.dailyRecasts++;
+    this.scheduleStateSave();
+  }
+
+  /**
+   * Record a published cast against today's quota
+   */
+  recordPost(fid?: number): void {
+    const account = this.getAccount(fid);
+    if (!account) return;
+    account.dailyPosts++;
+    this.scheduleStateSave();
+  }
+
+  // ==========================================================================
+  // PERSISTENCE
+  // ==========================================================================
+
+  /**
+   * Restore every account's state; stream and channel cursors are kept
+   * with the primary account
+   */
+  private async loadState(): Promise<void> {
+    const config = this.localConfig;
+    if (!config) return;
+
+    for (const [fid, store] of this.stateStores) {
+      const account = this.accounts.get(fid);
+      if (!account) continue;
+
+      try {
+        const state = await store.load();
+        if (!state) continue;
+
+        account.repliedToHashes = new Map(Object.entries(state.repliedTo));
+        account.likedHashes = new Map(Object.entries(state.liked));
+        // Absent in state written before recasts were tracked
+        account.recastedHashes = new Map(
+          Object.entries(state.recasted ?? {})
+        );
+        account.dailyReplies = state.daily.replies;
+        account.dailyLikes = state.daily.likes;
+        account.dailyRecasts = state.daily.recasts ?? 0;
+        account.dailyPosts = state.daily.posts;
+        account.lastResetDate = state.daily.date;
+        if (fid === config.fid) {
+          this.lastEventId = state.cursors.mentionStream ?? null;
+          this.channelScheduler?.restoreCursors(state.cursors);
+        }
+
+        logger.info(
+          `Restored state for FID ${fid}: ${account.repliedToHashes.size} replied, ${account.likedHashes.size} liked, today ${account.dailyReplies}/${account.dailyLikes}/${account.dailyPosts} (replies/likes/posts)`
+        );
+      } catch (error) {
+        logger.error(
+          `Error loading persisted state for FID ${fid}:`,
+          String(error)
+        );
+      }
+    }
+
+    this.resetDailyCountersIfNeeded();
+  }
+
+  private snapshotState(account: AccountState): PersistedState {
+    const cursors: Record<string, number> = {};
+    if (account.fid === this.localConfig?.fid) {
+      Object.assign(cursors, this.channelScheduler?.exportCursors());
+      if (this.lastEventId !== null) cursors.mentionStream = this.lastEventId;
+    }
+
+    return {
+      version: 1,
+      repliedTo: Object.fromEntries(account.repliedToHashes),
+      liked: Object.fromEntries(account.likedHashes),
+      recasted: Object.fromEntries(account.recastedHashes),
+      daily: {
+        date: account.lastResetDate,
+        replies: account.dailyReplies,
+        likes: account.dailyLikes,
+        recasts: account.dailyRecasts,
+        posts: account.dailyPosts,
+      },
+      cursors,
+    };
+  }
+
+  private scheduleStateSave(): void {
+    if (this.stateSaveTimer) return;
+
+    this.stateSaveTimer = setTimeout(() => {
+      this.stateSaveTimer = null;
+      this.flushState();
+    }, STATE_SAVE_DELAY);
+  }
+
+  /**
+   * Write the current state to the store immediately
+   */
+  async flushState(): Promise<void> {
+    if (this.stateSaveTimer) {
+      clearTimeout(this.stateSaveTimer);
+      this.stateSaveTimer = null;
+    }
+    this.stateSavedAt = Date.now();
+
+    for (const [fid, store] of this.stateStores) {
+      const account = this.accounts.get(fid);
+      if (!account) continue;
+
+      try {
+        await store.save(this.snapshotState(account));
+      } catch (error) {
+        logger.error(
+          `Error saving persisted state for FID ${fid}:`,
+          String(error)
+        );
+      }
+    }
+  }
+
+  /**
+   * Current status, as exposed by the provider
+   */
+  getStatus(): ServiceStatus {
+    const statsOf = (account?: AccountState): DailyStats => ({
+      dailyReplies: account?.dailyReplies || 0,
+      dailyLikes: account?.dailyLikes || 0,
+      dailyRecasts: account?.dailyRecasts || 0,
+      dailyPosts: account?.dailyPosts || 0,
+    });
+
+    return {
+      fid: this.localConfig?.fid,
+      hubConnected: !!this.hubApiClient,
+      hubReads: {
+        state: this.hubFailures > 0 ? "degraded" : "ok",
+        consecutiveFailures: this.hubFailures,
+        lastError: this.lastHubError?.message ?? null,
+      },
+      grpcConnection: this.hubClient?.getConnectionState() ?? "idle",
+      mentionStream: !!this.mentionStream,
+      channels: this.channelScheduler?.getStats() ?? {},
+      hubs: this.hubMonitor?.getStatus() ?? null,
+      userCache: this.hubApiClient?.getUserCacheStats() ?? null,
+      storage: this.storageMonitor?.getReports() ?? {},
+      stats: statsOf(this.getAccount()),
+      accounts: Object.fromEntries(
+        [...this.accounts].map(([fid, account]) => [fid, statsOf(account)])
+      ),
+    };
+  }
+
+  // ==========================================================================
+  // INTERACTION LOOPS
+  // ==========================================================================
+
+  private startInteractionLoop(): void {
+    const config = this.localConfig;
+    if (!config) return;
+
+    const scheduleNext = () => {
+      if (this.stopped) return;
+
+      const interval =
+        this.hubFailures > 0
+          ? this.hubBackoffDelay()
+          : Math.random() *
+              (config.interactionIntervalMax - config.interactionIntervalMin) +
+            config.interactionIntervalMin;
+      logger.info(
+        `Next interaction scan in ${Math.round(interval / 60000)} minutes`
+      );
+
+      this.interactionTimer = setTimeout(async () => {
+        await this.runInteractionCycle();
+        scheduleNext();
+      }, interval);
+    };
+
+    // Initial scan after 30 seconds
+    this.interactionTimer = setTimeout(async () => {
+      await this.runInteractionCycle();
+      scheduleNext();
+    }, 30000);
+  }
+
+  private startPostLoop(): void {
+    const config = this.localConfig;
+    if (!config) return;
+
+    const scheduleNext = () => {
+      if (this.stopped) return;
+
+      const interval =
+        Math.random() * (config.postIntervalMax - config.postIntervalMin) +
+        config.postIntervalMin;
+      logger.info(
+        `Next direct post in ${Math.round(interval / 3600000)} hours`
+      );
+
+      this.postTimer = setTimeout(async () => {
+        await this.generateAndPost();
+        scheduleNext();
+      }, interval);
+    };
+
+    scheduleNext();
+  }
+
+  // ==========================================================================
+  // INTERACTION HANDLERS
+  // ==========================================================================
+
+  private async runInteractionCycle(): Promise<void> {
+    const account = this.getAccount();
+    if (!this.hubApiClient || !account) return;
+
+    this.resetDailyCountersIfNeeded();
+
+    if (this.hubMonitor && !this.hubMonitor.isReadHealthy()) {
+      logger.warn(
+        "No healthy read hub (down, syncing or lagging), skipping cycle to avoid acting on stale data"
+      );
+      return;
+    }
+
+    try {
+      for (const fid of this.accounts.keys()) {
+        await this.storageMonitor?.refreshIfStale(fid);
+      }
+
+      logger.info("Starting interaction cycle...");
+      await this.respondToMentions();
+      this.recordHubSuccess();
+
+      await this.scanChannelsForCasts();
+      logger.info(
+        `Cycle complete. Daily stats: ${account.dailyReplies} replies, ${account.dailyLikes} likes`
+      );
+    } catch (error) {
+      if (this.stopped) return;
+      if (error instanceof HubError) {
+        this.recordHubFailure(error);
+      } else {
+        logger.error("Error in interaction cycle:", String(error));
+      }
+    }
+  }
+
+  /**
+   * Wait before the next cycle while hub reads fail: double the minimum
+   * interval per consecutive failure, up to HUB_BACKOFF_MAX
+   */
+  private hubBackoffDelay(): number {
+    const minInterval = this.localConfig?.interactionIntervalMin ?? 60000;
+    return Math.min(minInterval * 2 ** this.hubFailures, HUB_BACKOFF_MAX);
+  }
+
+  private recordHubFailure(error: HubError): void {
+    this.hubFailures++;
+    this.lastHubError = error;
+    logger.warn(
+      `Hub unavailable (${this.hubFailures} failed cycle${this.hubFailures === 1 ? "" : "s"}), skipping this cycle:`,
+      error.message
+    );
+  }
+
+  private recordHubSuccess(): void {
+    if (this.hubFailures > 0) {
+      logger.info(
+        `Hub reads recovered after ${this.hubFailures} failed cycle${this.hubFailures === 1 ? "" : "s"}`
+      );
+    }
+    this.hubFailures = 0;
+    this.lastHubError = null;
+  }
+
+  /**
+   * Poll mentions of every managed account
+   *
+   * Hub read failures are thrown (as HubErrors) so the cycle can back off
+   * instead of treating them as "no mentions".
+   */
+  private async respondToMentions(): Promise<void> {
+    const config = this.localConfig;
+    if (!this.hubApiClient || !config) return;
+
+    const hubApiClient = this.hubApiClient.strict();
+    const oldestAllowed = unixToFarcaster(
+      Math.floor(Date.now() / 1000) - config.maxCastAge
+    );
+
+    for (const account of this.accounts.values()) {
+      if (this.stopped) return;
+
+      try {
+        const maxReplies = this.dailyLimit(
+          config.maxDailyReplies,
+          "casts",
+          account.fid
+        );
+        if (account.dailyReplies >= maxReplies) continue;
+
+        // Newest first, all the way back to maxCastAge: mentions that
+        // failed or were left over by the daily limit are unmarked and can
+        // sit behind newer, handled ones
+        let checked = 0;
+        for await (const cast of hubApiClient.iterateMentions(account.fid, {
+          pageSize: MENTION_PAGE_SIZE,
+          sinceTimestamp: oldestAllowed,
+        })) {
+          if (this.stopped || account.dailyReplies >= maxReplies) break;
+          if (account.repliedToHashes.has(cast.hash)) continue;
+          checked++;
+          await this.handleMention(cast, account);
+        }
+
+        if (checked > 0) {
+          logger.info(`Checked ${checked} new mentions of FID ${account.fid}`);
+        }
+      } catch (error) {
+        if (error instanceof HubError) throw error;
+        logger.error(
+          `Error responding to mentions of FID ${account.fid}:`,
+          String(error)
+        );
+      }
+    }
+  }
+
+  /**
+   * Reply as `account` to a single cast that mentions or replies to it
+   *
+   * Shared by the polling loop and the event stream.
+   */
+  private async handleMention(
+    cast: CastWithAuthor,
+    account: AccountState
+  ): Promise<void> {
+    const config = this.localConfig;
+    if (!config) return;
+
+    if (account.repliedToHashes.has(cast.hash)) return;
+    if (
+      account.dailyReplies >=
+      this.dailyLimit(config.maxDailyReplies, "casts", account.fid)
+    ) {
+      return;
+    }
+    // Never let managed accounts reply to each other
+    if (this.accounts.has(cast.fid)) return;
+
+    // CRITICAL: Convert Farcaster timestamp to Unix for comparison
+    const castAge = Date.now() / 1000 - farcasterToUnix(cast.timestamp);
+    if (castAge > config.maxCastAge) {
+      logger.info(
+        `Skipping old cast (${Math.floor(castAge / 86400)}d): ${cast.hash.slice(0, 10)}`
+      );
+      return;
+    }
+
+    const key = `${account.fid}:${cast.hash}`;
+    if (this.mentionsInFlight.has(key)) return;
+    this.mentionsInFlight.add(key);
+
+    logger.info(
+      `Found mention from @${cast.author.username}: ${cast.renderedText.slice(0, 50)}...`
+    );
+
+    // Only decisions mark the cast as handled; on an error it stays
+    // unmarked and the next cycle tries again
+    try {
+      // Skip scoring when every mention gets a reply (the default)
+      const engine = this.relevanceEngine;
+      if (engine && engine.thresholds.reply > 0) {
+        const relevance = await engine.evaluate(cast);
+        if (!engine.meetsThreshold(relevance, "reply")) {
+          logger.info(
+            `Not replying to ${cast.hash.slice(0, 10)} (score ${relevance.score})`
+          );
+          this.markReplied(cast.hash, account.fid);
+          return;
+        }
+      }
+
+      const replyText = await this.generateReply(cast, account.fid);
+
+      if (!replyText) {
+        logger.info(`Model declined to reply to ${cast.hash.slice(0, 10)}`);
+        this.markReplied(cast.hash, account.fid);
+        return;
+      }
+
+      if (
+        await this.replyToCast(cast.fid, cast.hash, replyText, account.fid)
+      ) {
+        this.recordReply(cast.hash, account.fid);
+      }
+    } catch (error) {
+      logger.error(
+        `Error replying to ${cast.hash.slice(0, 10)}, will retry:`,
+        String(error)
+      );
+    } finally {
+      this.mentionsInFlight.delete(key);
+    }
+  }
+
+  // ==========================================================================
+  // MENTION STREAM
+  // ==========================================================================
+
+  private async startMentionStream(): Promise<void> {
+    if (!this.hubClient || this.stopped) return;
+
+    const fromId =
+      this.lastEventId !== null ? this.lastEventId + 1 : undefined;
+    const generation = ++this.streamGeneration;
+
+    this.streamSubscribing = true;
+    try {
+      const subscription = await this.hubClient.subscribeToEvents({
+        fromId,
+        onEvent: (event) => {
+          if (generation !== this.streamGeneration) return;
+          this.lastEventId = event.id;
+          // Handled mentions save right away; the cursor can wait
+          if (Date.now() - this.stateSavedAt >= STREAM_CURSOR_SAVE_INTERVAL) {
+            this.scheduleStateSave();
+          }
+          this.streamQueue = this.streamQueue.then(() =>
+            this.handleStreamEvent(event)
+          );
+        },
+        onClose: (error) => {
+          if (generation !== this.streamGeneration) return;
+          this.mentionStream = null;
+          logger.warn(
+            "Mention stream closed:",
+            error ? String(error) : "stream ended"
+          );
+          this.scheduleStreamReconnect();
+        },
+      });
+
+      // Replaced while subscribing (hub switch or stop)
+      if (generation !== this.streamGeneration || this.stopped) {
+        subscription.close();
+        return;
+      }
+      this.mentionStream = subscription;
+
+      this.streamReconnectDelay = STREAM_RECONNECT_MIN;
+      logger.info(
+        `Mention stream connected${fromId !== undefined ? ` (resuming from event ${fromId})` : ""}`
+      );
+    } catch (error) {
+      if (generation !== this.streamGeneration) return;
+      logger.error("Error connecting mention stream:", String(error));
+      this.scheduleStreamReconnect();
+    } finally {
+      if (generation === this.streamGeneration) this.streamSubscribing = false;
+    }
+  }
+
+  /**
+   * Drop the current subscription and subscribe again from the live tip,
+   * after the write hub changed. A pending reconnect already does this.
+   */
+  private restartMentionStream(): void {
+    if (!this.mentionStream && !this.streamSubscribing) return;
+
+    // A subscription still connecting closes itself when it sees this
+    this.streamGeneration++;
+    this.mentionStream?.close();
+    this.mentionStream = null;
+    logger.info("Write hub changed, resubscribing mention stream");
+    this.startMentionStream();
+  }
+
+  private scheduleStreamReconnect(): void {
+    if (this.stopped || this.streamReconnectTimer) return;
+
+    const delay = this.streamReconnectDelay;
+    this.streamReconnectDelay = Math.min(delay * 2, STREAM_RECONNECT_MAX);
+    logger.info(`Reconnecting mention stream in ${Math.round(delay / 1000)}s`);
+
+    this.streamReconnectTimer = setTimeout(() => {
+      this.streamReconnectTimer = null;
+      this.startMentionStream();
+    }, delay);
+  }
+
+  /**
+   * Feed casts that mention or reply to a managed account into
+   * handleMention(), once per account addressed
+   */
+  private async handleStreamEvent(event: HubEvent): Promise<void> {
+    const config = this.localConfig;
+    if (!config || !this.hubApiClient) return;
+
+    const message = event.mergeMessageBody?.message;
+    const data = message?.data;
+    if (!message || data?.type !== MessageType.CAST_ADD) return;
+
+    const body = data.castAddBody;
+    if (!body || this.accounts.has(data.fid)) return;
+
+    const addressed = [...this.accounts.values()].filter(
+      (account) =>
+        body.mentions.includes(account.fid) ||
+        body.parentCastId?.fid === account.fid
+    );
+    if (addressed.length === 0) return;
+
+    const hashResult = bytesToHexString(message.hash);
+    if (hashResult.isErr()) return;
+
+    try {
+      this.resetDailyCountersIfNeeded();
+
+      // Re-read over HTTP so the cast has the same shape as polled ones
+      const cast = await this.hubApiClient.getCast(data.fid, hashResult.value);
+      if (!cast) {
+        logger.warn(
+          `Streamed cast ${hashResult.value.slice(0, 10)} not readable yet, leaving it to polling`
+        );
+        return;
+      }
+
+      for (const account of addressed) {
+        await this.handleMention(cast, account);
+      }
+    } catch (error) {
+      logger.error("Error handling streamed mention:", String(error));
+    }
+  }
+
+  /**
+   * Visit every scan channel as the primary account
+   */
+  private async scanChannelsForCasts(): Promise<void> {
+    const config = this.localConfig;
+    if (!this.hubApiClient || !this.channelScheduler || !config) return;
+
+    for (const visit of this.channelScheduler.plan(config.maxDailyLikes)) {
+      if (this.stopped) return;
+      await this.scanChannel(visit);
+    }
+  }
+
+  /**
+   * Fetch a channel's casts newer than its cursor and engage with them
+   */
+  private async scanChannel(visit: ChannelVisit): Promise<void> {
+    const config = this.localConfig;
+    const account = this.getAccount();
+    if (
+      !this.hubApiClient ||
+      !this.relevanceEngine ||
+      !this.channelScheduler ||
+      !config ||
+      !account
+    ) {
+      return;
+    }
+
+    const { channel } = visit;
+    const info = await this.channelRegistry?.resolve(channel);
+    if (!info?.valid) return;
+    const oldestAllowed = unixToFarcaster(
+      Math.floor(Date.now() / 1000) - config.maxCastAge
+    );
+
+    try {
+      logger.info(
+        `Scanning channel: ${channel} (${visit.likeAllowance} likes left)`
+      );
+
+      let newCasts = 0;
+      let newestTimestamp: number | null = null;
+      let likeAllowance = visit.likeAllowance;
+      const maxLikes = this.dailyLimit(config.maxDailyLikes, "reactions");
+      const maxRecasts = this.dailyLimit(config.maxDailyRecasts, "reactions");
+
+      for await (const cast of this.hubApiClient.iterateChannelCasts(
+        info.parentUrl,
+        {
+          pageSize: visit.fetchLimit,
+          maxItems: visit.fetchLimit,
+          sinceTimestamp: Math.max(visit.sinceTimestamp ?? 0, oldestAllowed),
+        }
+      )) {
+        newestTimestamp = Math.max(newestTimestamp ?? 0, cast.timestamp);
+        // The cursor is inclusive, so casts from the same second come back
+        if (
+          visit.sinceTimestamp === undefined ||
+          cast.timestamp > visit.sinceTimestamp
+        ) {
+          newCasts++;
+        }
+
+        const canLike =
+          likeAllowance > 0 &&
+          account.dailyLikes < maxLikes &&
+          !account.likedHashes.has(cast.hash);
+        const canRecast =
+          account.dailyRecasts < maxRecasts &&
+          !account.recastedHashes.has(cast.hash);
+
+        if (!canLike && !canRecast) continue;
+        if (this.accounts.has(cast.fid)) continue;
+
+        const relevance = await this.relevanceEngine.evaluate(cast);
+        if (relevance.score > 0) {
+          logger.info(
+            `Cast ${cast.hash.slice(0, 10)} scored ${relevance.score}: ${relevance.reasons.join("; ")}`
+          );
+        }
+
+        if (
+          canLike &&
+          this.relevanceEngine.meetsThreshold(relevance, "like") &&
+          (await this.likeCast(cast.fid, cast.hash))
+        ) {
+          this.recordLike(cast.hash);
+          this.channelScheduler.recordLike(channel);
+          likeAllowance--;
+        }
+
+        if (
+          canRecast &&
+          this.relevanceEngine.meetsThreshold(relevance, "recast") &&
+          (await this.recastCast(cast.fid, cast.hash))
+        ) {
+          this.recordRecast(cast.hash);
+        }
+      }
+
+      this.channelScheduler.recordVisit(channel, newCasts, newestTimestamp);
+      this.scheduleStateSave();
+    } catch (error) {
+      logger.error(`Error scanning channel "${channel}":`, String(error));
+    }
+  }
+
+  // ==========================================================================
+  // REPLY GENERATION
+  // ==========================================================================
+
+  /**
+   * Describe a cast's links and quoted casts for a prompt
+   */
+  private async describeEmbeds(cast: CastWithAuthor): Promise<string> {
+    const lines: string[] = [];
+
+    for (const embed of cast.embeds) {
+      if (embed.type === "url") {
+        lines.push(`- link: ${embed.url}`);
+        continue;
+      }
+
+      const quoted = await this.hubApiClient?.getCast(
+        embed.castId.fid,
+        embed.castId.hash
+      );
+      lines.push(
+        quoted
+          ? `- quoting @${quoted.author.username}: ${quoted.renderedText}`
+          : `- quoting a cast that could not be loaded`
+      );
+    }
+
+    return lines.join("\n") || "(none)";
+  }
+
+  /**
+   * Generate a reply to a mention of `fid` using the runtime's model
+   * pipeline
+   *
+   * Returns null when the model declines (empty `<text>`). Errors are
+   * thrown, so a failed generation isn't mistaken for a decline.
+   */
+  private async generateReply(
+    cast: CastWithAuthor,
+    fid: number
+  ): Promise<string | null> {
+    const conversation = await this.hubApiClient?.getThread(
+      cast.fid,
+      cast.hash,
+      {
+        maxAncestors: MAX_THREAD_DEPTH,
+        maxReplyDepth: 1,
+        maxRepliesPerCast: MAX_THREAD_REPLIES,
+      }
+    );
+    const thread = conversation?.ancestors ?? [];
+    const replies = (conversation?.target.replies ?? []).map(
+      (node) => node.cast
+    );
+
+    const state = {
+      agentName: this.runtime.character.name,
+      bio: formatCharacterBio(this.runtime),
+      style: formatCharacterStyle(this.runtime),
+      authorUsername: cast.author.username,
+      authorDisplayName: cast.author.displayName,
+      authorBio: cast.author.bio || "(none)",
+      thread:
+        thread
+          .map((parent) => `@${parent.author.username}: ${parent.renderedText}`)
+          .join("\n") || "(this cast starts the conversation)",
+      replies:
+        replies
+          .map((reply) => `@${reply.author.username}: ${reply.renderedText}`)
+          .join("\n") || "(no replies yet)",
+      castText: cast.renderedText,
+      embeds: await this.describeEmbeds(cast),
+      mentionedUsers:
+        cast.mentionedUsers
+          .map((user) =>
+            user.fid === fid
+              ? `@${user.username} (you)`
+              : `@${user.username} (${user.displayName})`
+          )
+          .join(", ") || "(none)",
+    };
+
+    const prompt = composePrompt({
+      state,
+      template:
+        this.runtime.character.templates?.farcasterReplyTemplate ??
+        farcasterReplyTemplate,
+    });
+
+    const response = await this.runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt,
+    });
+
+    const parsed = parseKeyValueXml<{ text?: string }>(response);
+    const text = parsed?.text?.trim();
+
+    return text || null;
+  }
+
+  // ==========================================================================
+  // WRITE OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Hub client signing as `fid`, the primary account by default
+   */
+  private clientFor(fid?: number): DirectHubClient {
+    if (!this.hubClient) throw new Error("Hub client not initialized");
+    return fid === undefined ? this.hubClient : this.hubClient.as(fid);
+  }
+
+  /**
+   * Turn text into cast parts with protocol mentions
+   *
+   * Text over the cast byte limit (after mentions are stripped) is split
+   * into numbered thread parts.
+   */
+  private async composeParts(text: string): Promise<ThreadPart[]> {
+    const hubApiClient = this.hubApiClient;
+    const compose = async (partText: string, maxBytes?: number) => {
+      const composed = await composeCastText(
+        partText,
+        async (username) =>
+          hubApiClient ? hubApiClient.getFidByUsername(username) : null,
+        maxBytes
+      );
+      if (composed.unresolved.length > 0) {
+        logger.warn(
+          `Unresolved mentions left as text: ${composed.unresolved.map((u) => `@${u}`).join(", ")}`
+        );
+      }
+      return {
+        text: composed.text,
+        mentions: composed.mentions,
+        mentionsPositions: composed.mentionsPositions,
+      };
+    };
+
+    const whole = await compose(text, Infinity);
+    if (utf8ByteLength(whole.text) <= MAX_CAST_BYTES) return [whole];
+
+    const parts: ThreadPart[] = [];
+    for (const part of splitCastText(
+      text,
+      MAX_CAST_BYTES - THREAD_SUFFIX_BYTES
+    )) {
+      parts.push(await compose(part));
+    }
+    logger.info(
+      `Text is over the cast limit, splitting into ${parts.length} casts`
+    );
+    return parts;
+  }
+
+  async replyToCast(
+    targetFid: number,
+    targetHash: string,
+    text: string,
+    fid?: number
+  ): Promise<boolean> {
+    if (!this.localConfig || !this.hubClient) return false;
+
+    logger.info(
+      `Replying to cast ${targetHash.slice(0, 10)}: ${text.slice(0, 50)}...`
+    );
+
+    try {
+      const client = this.clientFor(fid);
+      const parts = await this.composeParts(text);
+
+      if (this.localConfig.dryRun) {
+        logger.info(
+          `DRY RUN - Would reply to cast ${targetHash} as FID ${client.getFid()} (${parts.length} casts): ${text}`
+        );
+        return true;
+      }
+
+      await client.publishThread(parts, {
+        numbered: parts.length > 1,
+        parentFid: targetFid,
+        parentHash: targetHash,
+      });
+      logger.info("Reply published via local hub");
+      return true;
+    } catch (error) {
+      logger.error("Error replying to cast:", String(error));
+      return false;
+    }
+  }
+
+  async likeCast(
+    targetFid: number,
+    targetHash: string,
+    fid?: number
+  ): Promise<boolean> {
+    if (!this.localConfig || !this.hubClient) return false;
+
+    logger.info(`Liking cast ${targetHash.slice(0, 10)}...`);
+
+    if (this.localConfig.dryRun) {
+      logger.info(`DRY RUN - Would like cast: ${targetHash}`);
+      return true;
+    }
+
+    try {
+      await this.clientFor(fid).likeCast(targetFid, targetHash);
+      logger.info("Like added via local hub");
+      return true;
+    } catch (error) {
+      logger.error("Error liking cast:", String(error));
+      return false;
+    }
+  }
+
+  async recastCast(
+    targetFid: number,
+    targetHash: string,
+    fid?: number
+  ): Promise<boolean> {
+    if (!this.localConfig || !this.hubClient) return false;
+
+    logger.info(`Recasting cast ${targetHash.slice(0, 10)}...`);
+
+    if (this.localConfig.dryRun) {
+      logger.info(`DRY RUN - Would recast cast: ${targetHash}`);
+      return true;
+    }
+
+    try {
+      await this.clientFor(fid).recastCast(targetFid, targetHash);
+      logger.info("Recast added via local hub");
+      return true;
+    } catch (error) {
+      logger.error("Error recasting cast:", String(error));
+      return false;
+    }
+  }
+
+  async followUser(targetFid: number, fid?: number): Promise<boolean> {
+    if (!this.localConfig || !this.hubClient) return false;
+
+    logger.info(`Following FID ${targetFid}...`);
+
+    if (this.localConfig.dryRun) {
+      logger.info(`DRY RUN - Would follow FID: ${targetFid}`);
+      return true;
+    }
+
+    try {
+      await this.clientFor(fid).followUser(targetFid);
+      logger.info("Follow added via local hub");
+      return true;
+    } catch (error) {
+      logger.error("Error following user:", String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Publish a cast, optionally with link embeds and a quoted cast
+   *
+   * Embeds go on the first cast when the text is split into a thread.
+   */
+  async publishCast(
+    text: string,
+    parentUrl?: string,
+    embeds: CastEmbeds = {},
+    fid?: number
+  ): Promise<boolean> {
+    if (!this.localConfig || !this.hubClient) return false;
+
+    logger.info(
+      `Posting${parentUrl ? ` to ${parentUrl}` : ""}: ${text.slice(0, 50)}...`
+    );
+
+    try {
+      const client = this.clientFor(fid);
+      const parts = await this.composeParts(text);
+      parts[0] = {
+        ...parts[0],
+        embeds: (embeds.urls ?? []).map((url) => ({ url })),
+        embedsCastIds: embeds.quote
+          ? [
+              {
+                fid: embeds.quote.fid,
+                hash: hexToBytes(embeds.quote.hash.replace(/^0x/, "")),
+              },
+            ]
+          : [],
+      };
+
+      if (this.localConfig.dryRun) {
+        logger.info(
+          `DRY RUN - Would post as FID ${client.getFid()} (${parts.length} casts): ${text}`
+        );
+        return true;
+      }
+
+      await client.publishThread(parts, {
+        numbered: parts.length > 1,
+        parentUrl,
+      });
+      logger.info("Cast published via local hub");
+      return true;
+    } catch (error) {
+      logger.error("Error publishing cast:", String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Publish a cast quoting another cast
+   */
+  async quoteCast(
+    targetFid: number,
+    targetHash: string,
+    text: string,
+    fid?: number
+  ): Promise<boolean> {
+    return this.publishCast(
+      text,
+      undefined,
+      { quote: { fid: targetFid, hash: targetHash } },
+      fid
+    );
+  }
+
+  // ==========================================================================
+  // DIRECT POSTING
+  // ==========================================================================
+
+  /**
+   * Compose an original cast using the runtime's model pipeline
+   */
+  private async generatePost(
+    recentPosts: string[],
+    channel: ChannelInfo | null
+  ): Promise<string | null> {
+    try {
+      const character = this.runtime.character;
+
+      const state = {
+        agentName: character.name,
+        bio: formatCharacterBio(this.runtime),
+        topics: (character.topics ?? []).map((t) => `- ${t}`).join("\n"),
+        style: formatCharacterStyle(this.runtime),
+        postExamples: (character.postExamples ?? []).join("\n"),
+        recentPosts:
+          recentPosts.map((text) => `- ${text}`).join("\n") || "(none yet)",
+        channelContext: channel
+          ? `# Channel\nThis cast will be posted in the /${channel.id} channel${channel.description ? ` (${channel.description})` : ""}, keep it on topic.`
+          : "",
+      };
+
+      const prompt = composePrompt({
+        state,
+        template:
+          character.templates?.farcasterPostTemplate ?? farcasterPostTemplate,
+      });
+
+      const response = await this.runtime.useModel(ModelType.TEXT_SMALL, {
+        prompt,
+      });
+
+      const parsed = parseKeyValueXml<{ text?: string }>(response);
+      const text = parsed?.text?.trim();
+
+      return text || null;
+    } catch (error) {
+      logger.error("Error generating post:", String(error));
+      return null;
+    }
+  }
+
+  private async generateAndPost(): Promise<void> {
+    const config = this.localConfig;
+    const account = this.getAccount();
+    if (!config || !account || !this.hubClient || !this.hubApiClient) return;
+
+    this.resetDailyCountersIfNeeded();
+    await this.storageMonitor?.refreshIfStale(account.fid);
+
+    const maxPosts = this.dailyLimit(config.maxDailyPosts, "casts");
+    if (maxPosts === 0 && config.maxDailyPosts > 0) {
+      logger.warn("Posting paused - cast storage is full");
+      return;
+    }
+    if (account.dailyPosts >= maxPosts) {
+      logger.info("Daily post limit reached");
+      return;
+    }
+
+    const recentPosts = await this.hubApiClient.getCastsByFid(
+      config.fid,
+      RECENT_POSTS_CONTEXT
+    );
+
+    // Optionally target one of the scanned channels the hub knows about
+    const channels = config.postToChannels
+      ? (this.channelRegistry?.list() ?? []).filter(
+          (info) => info.valid && this.channelScheduler?.has(info.id)
+        )
+      : [];
+    const channel =
+      channels.length > 0
+        ? channels[Math.floor(Math.random() * channels.length)]
+        : null;
+
+    const text = await this.generatePost(
+      recentPosts.map((cast) => cast.renderedText),
+      channel
+    );
+    if (!text) {
+      logger.info("No post generated");
+      return;
+    }
+
+    const duplicate = recentPosts.find(
+      (cast) => textSimilarity(cast.renderedText, text) >= DUPLICATE_SIMILARITY
+    );
+    if (duplicate) {
+      logger.info(
+        `Skipping post too similar to ${duplicate.hash.slice(0, 10)}: ${text.slice(0, 50)}...`
+      );
+      return;
+    }
+
+    if (await this.publishCast(text, channel?.parentUrl)) {
+      this.recordPost();
+    }
+  }
+
+  // ==========================================================================
+  // CLEANUP
+  // ==========================================================================
+
+  private async stopFarcaster(): Promise<void> {
+    this.stopped = true;
+    this.abortController.abort();
+    if (this.interactionTimer) {
+      clearTimeout(this.interactionTimer);
+      this.interactionTimer = null;
+    }
+    if (this.postTimer) {
+      clearTimeout(this.postTimer);
+      this.postTimer = null;
+    }
+    if (this.streamReconnectTimer) {
+      clearTimeout(this.streamReconnectTimer);
+      this.streamReconnectTimer = null;
+    }
+    this.mentionStream?.close();
+    this.mentionStream = null;
+    this.hubMonitor?.stop();
+    this.hubClient?.close();
+    await this.flushState();
+    logger.info("Service stopped");
+  }
+}
@@ -0,0 +1,104 @@
+import { Eip712Signer } from "@farcaster/hub-nodejs";
+import { describe, expect, it, vi } from "vitest";
+import {
+  createSignedKeyRequest,
+  generateSignerKeyPair,
+  getSignerPublicKey,
+} from "./signer";
+
+/**
+ * Stand-in for a HubResult
+ */
+function result<T>(value: T) {
+  return { isErr: () => false, value };
+}
+
+function failure(message: string) {
+  return { isErr: () => true, error: { message } };
+}
+
+/**
+ * App signer answering with fixed signature and metadata bytes
+ */
+function appSigner() {
+  return {
+    signKeyRequest: vi.fn(
+      async (): Promise<unknown> => result(new Uint8Array([0xab, 0xcd]))
+    ),
+    getSignedKeyRequestMetadata: vi.fn(
+      async (): Promise<unknown> => result(new Uint8Array([0x01, 0x02]))
+    ),
+  };
+}
+
+describe("signer keys", () => {
+  it("generates a key pair whose public key derives from the private key", async () => {
+    const pair = await generateSignerKeyPair();
+
+    expect(pair.privateKey).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(pair.publicKey).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(await getSignerPublicKey(pair.privateKey)).toBe(pair.publicKey);
+    expect(await getSignerPublicKey(pair.privateKey.slice(2))).toBe(
+      pair.publicKey
+    );
+  });
+
+  it("generates a different key each time", async () => {
+    const [first, second] = await Promise.all([
+      generateSignerKeyPair(),
+      generateSignerKeyPair(),
+    ]);
+
+    expect(first.privateKey).not.toBe(second.privateKey);
+  });
+});
+
+describe("createSignedKeyRequest", () => {
+  const PUBLIC_KEY = `0x${"11".repeat(32)}`;
+
+  it("signs the key for the app FID and hex-encodes the result", async () => {
+    const signer = appSigner();
+
+    const request = await createSignedKeyRequest(
+      signer as unknown as Eip712Signer,
+      42,
+      PUBLIC_KEY,
+      1700000000
+    );
+
+    expect(request).toEqual({
+      key: PUBLIC_KEY,
+      requestFid: 42,
+      deadline: 1700000000,
+      signature: "0xabcd",
+      metadata: "0x0102",
+    });
+    expect(signer.signKeyRequest).toHaveBeenCalledWith({
+      requestFid: 42n,
+      key: new Uint8Array(32).fill(0x11),
+      deadline: 1700000000n,
+    });
+  });
+
+  it("defaults the deadline to a day from now", async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    const request = await createSignedKeyRequest(
+      appSigner() as unknown as Eip712Signer,
+      42,
+      PUBLIC_KEY
+    );
+
+    expect(request.deadline - now).toBeGreaterThanOrEqual(24 * 60 * 60);
+    expect(request.deadline - now).toBeLessThanOrEqual(24 * 60 * 60 + 1);
+  });
+
+  it("throws when the app signer fails", async () => {
+    const signer = appSigner();
+    signer.signKeyRequest.mockResolvedValueOnce(failure("user rejected"));
+
+    await expect(
+      createSignedKeyRequest(signer as unknown as Eip712Signer, 42, PUBLIC_KEY)
+    ).rejects.toThrow("Failed to sign key request: user rejected");
+  });
+});
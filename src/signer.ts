@@ -0,0 +1,103 @@
+/**
+ * Signer Key Provisioning
+ *
+ * Helpers for creating and rotating the agent's signer key:
+ * 1. generateSignerKeyPair() creates a new Ed25519 key pair
+ * 2. createSignedKeyRequest() has the requesting app's custody address sign
+ *    the public key, producing the metadata KeyGateway.add() expects
+ * 3. once the key is added on-chain, set it as FARCASTER_PRIVATE_KEY; the
+ *    startup check (DirectHubClient.checkSigner()) confirms the hub sees it
+ */
+
+import { Eip712Signer, NobleEd25519Signer } from "@farcaster/hub-nodejs";
+import { bytesToHex, hexToBytes, randomBytes } from "@noble/hashes/utils";
+
+/**
+ * How long a signed key request stays valid by default (seconds)
+ */
+const DEFAULT_REQUEST_TTL = 24 * 60 * 60;
+
+export interface SignerKeyPair {
+  /** 0x hex, keep secret */
+  privateKey: string;
+  /** 0x hex, the key registered on-chain */
+  publicKey: string;
+}
+
+export interface SignedKeyRequest {
+  /** Signer public key being added (0x hex) */
+  key: string;
+  /** FID of the app requesting the key */
+  requestFid: number;
+  /** Unix timestamp (seconds) after which the request is rejected */
+  deadline: number;
+  /** EIP-712 signature by the app's custody address (0x hex) */
+  signature: string;
+  /** ABI-encoded SignedKeyRequestMetadata, for KeyGateway.add() (0x hex) */
+  metadata: string;
+}
+
+function toBytes(hex: string): Uint8Array {
+  return hexToBytes(hex.startsWith("0x") ? hex.slice(2) : hex);
+}
+
+/**
+ * Derive the public key for a signer private key
+ */
+export async function getSignerPublicKey(privateKey: string): Promise<string> {
+  const result = await new NobleEd25519Signer(
+    toBytes(privateKey)
+  ).getSignerKey();
+  if (result.isErr()) {
+    throw new Error(`Invalid signer private key: ${result.error.message}`);
+  }
+  return `0x${bytesToHex(result.value)}`;
+}
+
+/**
+ * Generate a new Ed25519 signer key pair
+ */
+export async function generateSignerKeyPair(): Promise<SignerKeyPair> {
+  const privateKey = `0x${bytesToHex(randomBytes(32))}`;
+  return { privateKey, publicKey: await getSignerPublicKey(privateKey) };
+}
+
+/**
+ * Sign a key request for `publicKey` on behalf of the app with FID `appFid`
+ *
+ * `appSigner` wraps the app's custody address (e.g. ViemLocalEip712Signer).
+ * The returned metadata is passed to KeyGateway.add(1, key, 1, metadata) by
+ * the account that owns the FID the key is added to.
+ */
+export async function createSignedKeyRequest(
+  appSigner: Eip712Signer,
+  appFid: number,
+  publicKey: string,
+  deadline: number = Math.floor(Date.now() / 1000) + DEFAULT_REQUEST_TTL
+): Promise<SignedKeyRequest> {
+  const message = {
+    requestFid: BigInt(appFid),
+    key: toBytes(publicKey),
+    deadline: BigInt(deadline),
+  };
+
+  const signature = await appSigner.signKeyRequest(message);
+  if (signature.isErr()) {
+    throw new Error(`Failed to sign key request: ${signature.error.message}`);
+  }
+
+  const metadata = await appSigner.getSignedKeyRequestMetadata(message);
+  if (metadata.isErr()) {
+    throw new Error(
+      `Failed to encode key request metadata: ${metadata.error.message}`
+    );
+  }
+
+  return {
+    key: `0x${bytesToHex(message.key)}`,
+    requestFid: appFid,
+    deadline,
+    signature: `0x${bytesToHex(signature.value)}`,
+    metadata: `0x${bytesToHex(metadata.value)}`,
+  };
+}
@@ -0,0 +1,129 @@
+import {
+  mkdtemp,
+  readFile,
+  readdir,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  JsonFileStateStore,
+  MemoryStateStore,
+  PersistedState,
+  RuntimeCacheStateStore,
+  createStateStore,
+} from "./state-store";
+
+function state(replies: number): PersistedState {
+  return {
+    version: 1,
+    repliedTo: { "0xabc": 1700000000000 },
+    liked: {},
+    recasted: { "0xdef": 1700000001000 },
+    daily: {
+      date: "Mon Jan 01 2024",
+      replies,
+      likes: 2,
+      recasts: 1,
+      posts: 0,
+    },
+    cursors: { mentionStream: 42, "channel:dev": 123456 },
+  };
+}
+
+describe("JsonFileStateStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "state-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips state through the file", async () => {
+    const file = join(dir, "nested", "state.json");
+    await new JsonFileStateStore(file).save(state(3));
+
+    expect(await new JsonFileStateStore(file).load()).toEqual(state(3));
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual(state(3));
+  });
+
+  it("loads null when there is no file yet", async () => {
+    const store = new JsonFileStateStore(join(dir, "missing.json"));
+
+    expect(await store.load()).toBeNull();
+  });
+
+  it("loads null for a corrupt file", async () => {
+    const file = join(dir, "state.json");
+    const store = new JsonFileStateStore(file);
+    await store.save(state(1));
+    await writeFile(file, "{ not json");
+
+    expect(await store.load()).toBeNull();
+  });
+
+  it("applies overlapping saves in call order", async () => {
+    const file = join(dir, "state.json");
+    const store = new JsonFileStateStore(file);
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => store.save(state(i)))
+    );
+
+    expect((await store.load())?.daily.replies).toBe(19);
+    expect(await readdir(dir)).toEqual(["state.json"]);
+  });
+});
+
+describe("MemoryStateStore", () => {
+  it("returns the last saved state", async () => {
+    const store = new MemoryStateStore();
+    expect(await store.load()).toBeNull();
+
+    await store.save(state(1));
+    await store.save(state(2));
+
+    expect(await store.load()).toEqual(state(2));
+  });
+});
+
+describe("createStateStore", () => {
+  const runtime = {} as IAgentRuntime;
+
+  it("picks the backend by name", () => {
+    expect(createStateStore(runtime, "file", 1)).toBeInstanceOf(
+      JsonFileStateStore
+    );
+    expect(createStateStore(runtime, "memory", 1)).toBeInstanceOf(
+      MemoryStateStore
+    );
+    expect(createStateStore(runtime, "cache", 1)).toBeInstanceOf(
+      RuntimeCacheStateStore
+    );
+  });
+
+  it("keys the runtime cache by FID", async () => {
+    const cache = new Map<string, unknown>();
+    const cachingRuntime = {
+      getCache: async (key: string) => cache.get(key),
+      setCache: async (key: string, value: unknown) => {
+        cache.set(key, value);
+        return true;
+      },
+    } as unknown as IAgentRuntime;
+
+    await createStateStore(cachingRuntime, "cache", 1).save(state(1));
+    await createStateStore(cachingRuntime, "cache", 2).save(state(2));
+
+    expect(await createStateStore(cachingRuntime, "cache", 1).load()).toEqual(
+      state(1)
+    );
+    expect(cache.size).toBe(2);
+  });
+});
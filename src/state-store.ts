@@ -0,0 +1,136 @@
+/**
+ * Persistent Plugin State
+ *
+ * Stores which casts the agent has acted on, its daily quota counters and
+ * stream cursors so they survive restarts. Two backends are provided:
+ * - JSON file on disk
+ * - ElizaOS runtime cache (backed by the agent's database adapter)
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { IAgentRuntime } from "@elizaos/core";
+
+const logger = {
+  info: (...args: unknown[]) => console.log("[StateStore]", ...args),
+  error: (...args: unknown[]) => console.error("[StateStore]", ...args),
+  warn: (...args: unknown[]) => console.warn("[StateStore]", ...args),
+};
+
+export interface PersistedState {
+  version: 1;
+  /** Cast hash -> Unix ms when we acted on it */
+  repliedTo: Record<string, number>;
+  liked: Record<string, number>;
+  recasted?: Record<string, number>;
+  daily: {
+    date: string;
+    replies: number;
+    likes: number;
+    recasts?: number;
+    posts: number;
+  };
+  /** Named resume points, e.g. the last seen hub event id */
+  cursors: Record<string, number>;
+}
+
+export interface StateStore {
+  load(): Promise<PersistedState | null>;
+  save(state: PersistedState): Promise<void>;
+}
+
+export type StateStoreBackend = "file" | "cache" | "memory";
+
+/**
+ * Stores state as a JSON file, written atomically via a temp file
+ *
+ * Saves run one at a time in call order, since overlapping ones would share
+ * the temp file.
+ */
+export class JsonFileStateStore implements StateStore {
+  private lastSave: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async load(): Promise<PersistedState | null> {
+    try {
+      const raw = await readFile(this.filePath, "utf8");
+      return JSON.parse(raw) as PersistedState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error(`Error reading ${this.filePath}:`, String(error));
+      }
+      return null;
+    }
+  }
+
+  save(state: PersistedState): Promise<void> {
+    const json = JSON.stringify(state, null, 2);
+    const save = this.lastSave.then(() => this.write(json));
+    // A failed save is reported to its caller and doesn't block the next
+    this.lastSave = save.catch(() => undefined);
+    return save;
+  }
+
+  private async write(json: string): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, json, "utf8");
+    await rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Stores state in the ElizaOS runtime cache
+ */
+export class RuntimeCacheStateStore implements StateStore {
+  constructor(
+    private runtime: IAgentRuntime,
+    private key: string
+  ) {}
+
+  async load(): Promise<PersistedState | null> {
+    return (await this.runtime.getCache<PersistedState>(this.key)) ?? null;
+  }
+
+  async save(state: PersistedState): Promise<void> {
+    await this.runtime.setCache(this.key, state);
+  }
+}
+
+/**
+ * Keeps state in memory only (previous behavior, lost on restart)
+ */
+export class MemoryStateStore implements StateStore {
+  private state: PersistedState | null = null;
+
+  async load(): Promise<PersistedState | null> {
+    return this.state;
+  }
+
+  async save(state: PersistedState): Promise<void> {
+    this.state = state;
+  }
+}
+
+export function createStateStore(
+  runtime: IAgentRuntime,
+  backend: StateStoreBackend,
+  fid: number,
+  filePath?: string
+): StateStore {
+  switch (backend) {
+    case "file":
+      return new JsonFileStateStore(
+        filePath || `./data/farcaster-state-${fid}.json`
+      );
+    case "memory":
+      return new MemoryStateStore();
+    case "cache":
+    default:
+      return new RuntimeCacheStateStore(
+        runtime,
+        `local-hub-farcaster/state/${fid}`
+      );
+  }
+}
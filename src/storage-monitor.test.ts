@@ -0,0 +1,114 @@
+import { StoreType } from "@farcaster/hub-nodejs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DirectHubClient } from "./hub-client";
+import { HubApiClient } from "./hub-api-client";
+import { StorageMonitor, StoreName } from "./storage-monitor";
+
+const FID = 100;
+const LIMIT = 1000;
+
+type Used = Record<StoreName, number>;
+
+/**
+ * Monitor over a hub reporting `used` messages per store against LIMIT
+ */
+function monitor(used: Used, counted: Partial<Used> = {}) {
+  const getStorageLimits = vi.fn(async () => ({
+    units: 1,
+    limits: [
+      { storeType: StoreType.CASTS, used: used.casts, limit: LIMIT },
+      { storeType: StoreType.REACTIONS, used: used.reactions, limit: LIMIT },
+      { storeType: StoreType.LINKS, used: used.links, limit: LIMIT },
+    ],
+  }));
+  const countMessagesByFid = vi.fn(
+    async (store: StoreName) => counted[store] ?? null
+  );
+
+  const storageMonitor = new StorageMonitor(
+    { getStorageLimits } as unknown as DirectHubClient,
+    { countMessagesByFid } as unknown as HubApiClient,
+    undefined,
+    60000
+  );
+  return { storageMonitor, getStorageLimits };
+}
+
+describe("StorageMonitor", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("rates each store by its usage ratio", async () => {
+    const { storageMonitor } = monitor({
+      casts: 500,
+      reactions: 850,
+      links: 990,
+    });
+
+    const report = await storageMonitor.check(FID);
+
+    expect(report?.stores.map(({ store, level }) => [store, level])).toEqual([
+      ["casts", "ok"],
+      ["reactions", "warn"],
+      ["links", "pause"],
+    ]);
+    expect(report?.level).toBe("pause");
+  });
+
+  it("counts messages when the hub doesn't report usage", async () => {
+    const { storageMonitor } = monitor(
+      { casts: 0, reactions: 0, links: 0 },
+      { casts: 920 }
+    );
+
+    const report = await storageMonitor.check(FID);
+
+    expect(report?.stores[0]).toMatchObject({ used: 920, level: "throttle" });
+  });
+
+  it("scales the daily quota by level", async () => {
+    const { storageMonitor } = monitor({
+      casts: 500,
+      reactions: 920,
+      links: 990,
+    });
+    expect(storageMonitor.quotaScale(FID, "links")).toBe(1);
+
+    await storageMonitor.check(FID);
+
+    expect(storageMonitor.quotaScale(FID, "casts")).toBe(1);
+    expect(storageMonitor.quotaScale(FID, "reactions")).toBe(0.5);
+    expect(storageMonitor.quotaScale(FID, "links")).toBe(0);
+  });
+
+  it("keeps the last report when limits can't be read", async () => {
+    const { storageMonitor, getStorageLimits } = monitor({
+      casts: 990,
+      reactions: 0,
+      links: 0,
+    });
+    const first = await storageMonitor.check(FID);
+    getStorageLimits.mockRejectedValueOnce(new Error("UNAVAILABLE"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await storageMonitor.check(FID)).toBe(first);
+    expect(storageMonitor.quotaScale(FID, "casts")).toBe(0);
+  });
+
+  it("only re-checks once the report is stale", async () => {
+    const { storageMonitor, getStorageLimits } = monitor({
+      casts: 0,
+      reactions: 0,
+      links: 0,
+    });
+
+    await storageMonitor.refreshIfStale(FID);
+    await storageMonitor.refreshIfStale(FID);
+    expect(getStorageLimits).toHaveBeenCalledTimes(1);
+
+    storageMonitor.getReport(FID)!.checkedAt -= 60001;
+    await storageMonitor.refreshIfStale(FID);
+    expect(getStorageLimits).toHaveBeenCalledTimes(2);
+  });
+});
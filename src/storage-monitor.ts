@@ -0,0 +1,239 @@
+/**
+ * Storage Monitor
+ *
+ * Each FID rents storage units, and every store (casts, reactions, links)
+ * has a message limit derived from them. When a store is full the hub
+ * prunes its oldest messages to make room, silently. The monitor reads the
+ * limits over gRPC (getCurrentStorageLimitsByFid), counts our messages per
+ * store over HTTP, and turns usage into a level the loops act on:
+ * - warn: log, keep going
+ * - throttle: halve the daily quota for that store
+ * - pause: stop writing to that store
+ *
+ * It also notices when the oldest message in a store moves forward, which
+ * means the hub has pruned.
+ */
+
+import { StorageLimit, StoreType } from "@farcaster/hub-nodejs";
+import { DirectHubClient } from "./hub-client";
+import { HubApiClient } from "./hub-api-client";
+import { farcasterToUnix } from "./timestamps";
+
+const logger = {
+  info: (...args: unknown[]) => console.log("[StorageMonitor]", ...args),
+  error: (...args: unknown[]) => console.error("[StorageMonitor]", ...args),
+  warn: (...args: unknown[]) => console.warn("[StorageMonitor]", ...args),
+};
+
+export type StoreName = "casts" | "reactions" | "links";
+
+export type StorageLevel = "ok" | "warn" | "throttle" | "pause";
+
+/**
+ * Usage ratios (used / limit) at which each level starts
+ */
+export type StorageThresholds = Record<Exclude<StorageLevel, "ok">, number>;
+
+export interface StoreUsage {
+  store: StoreName;
+  used: number;
+  limit: number;
+  /** used / limit, 1 when the FID has no storage for this store */
+  ratio: number;
+  level: StorageLevel;
+  /** Farcaster timestamp of the oldest message kept, null if unknown */
+  earliestTimestamp: number | null;
+}
+
+export interface StorageReport {
+  fid: number;
+  /** Storage units rented */
+  units: number;
+  stores: StoreUsage[];
+  /** Worst level across stores */
+  level: StorageLevel;
+  /** Unix ms */
+  checkedAt: number;
+}
+
+const STORE_TYPES: Record<StoreName, StoreType> = {
+  casts: StoreType.CASTS,
+  reactions: StoreType.REACTIONS,
+  links: StoreType.LINKS,
+};
+
+const LEVEL_ORDER: StorageLevel[] = ["ok", "warn", "throttle", "pause"];
+
+/**
+ * Share of the daily quota left at each level
+ */
+const QUOTA_SCALE: Record<StorageLevel, number> = {
+  ok: 1,
+  warn: 1,
+  throttle: 0.5,
+  pause: 0,
+};
+
+export const DEFAULT_STORAGE_THRESHOLDS: StorageThresholds = {
+  warn: 0.8,
+  throttle: 0.9,
+  pause: 0.98,
+};
+
+/**
+ * How often usage is re-checked by default (ms)
+ */
+const DEFAULT_REFRESH_INTERVAL = 60 * 60 * 1000;
+
+export class StorageMonitor {
+  private reports: Map<number, StorageReport> = new Map();
+
+  constructor(
+    private hubClient: DirectHubClient,
+    private hubApiClient: HubApiClient,
+    readonly thresholds: StorageThresholds = DEFAULT_STORAGE_THRESHOLDS,
+    private refreshInterval: number = DEFAULT_REFRESH_INTERVAL
+  ) {}
+
+  private levelFor(ratio: number): StorageLevel {
+    if (ratio >= this.thresholds.pause) return "pause";
+    if (ratio >= this.thresholds.throttle) return "throttle";
+    if (ratio >= this.thresholds.warn) return "warn";
+    return "ok";
+  }
+
+  /**
+   * Read limits and usage for a FID and log anything worth knowing
+   *
+   * Returns the previous report (or null) if the hub can't be read.
+   */
+  async check(fid: number): Promise<StorageReport | null> {
+    const previous = this.reports.get(fid) ?? null;
+
+    let limits: StorageLimit[];
+    let units: number;
+    try {
+      const response = await this.hubClient.getStorageLimits(fid);
+      limits = response.limits;
+      units = response.units;
+    } catch (error) {
+      logger.error(
+        `Error reading storage limits for FID ${fid}:`,
+        String(error)
+      );
+      return previous;
+    }
+
+    const stores: StoreUsage[] = [];
+    for (const [store, storeType] of Object.entries(STORE_TYPES) as Array<
+      [StoreName, StoreType]
+    >) {
+      const limit = limits.find((entry) => entry.storeType === storeType);
+      // Older hubs don't fill in `used`, so count as well
+      const counted = await this.hubApiClient.countMessagesByFid(store, fid);
+      const used = Math.max(limit?.used ?? 0, counted ?? 0);
+      const max = limit?.limit ?? 0;
+      const ratio = max > 0 ? used / max : 1;
+
+      stores.push({
+        store,
+        used,
+        limit: max,
+        ratio,
+        level: this.levelFor(ratio),
+        earliestTimestamp: limit?.earliestTimestamp || null,
+      });
+    }
+
+    const report: StorageReport = {
+      fid,
+      units,
+      stores,
+      level: stores.reduce<StorageLevel>(
+        (worst, usage) =>
+          LEVEL_ORDER.indexOf(usage.level) > LEVEL_ORDER.indexOf(worst)
+            ? usage.level
+            : worst,
+        "ok"
+      ),
+      checkedAt: Date.now(),
+    };
+    this.reports.set(fid, report);
+    this.logChanges(previous, report);
+
+    return report;
+  }
+
+  /**
+   * Check a FID if its report is missing or older than the refresh interval
+   */
+  async refreshIfStale(fid: number): Promise<void> {
+    const report = this.reports.get(fid);
+    if (!report || Date.now() - report.checkedAt > this.refreshInterval) {
+      await this.check(fid);
+    }
+  }
+
+  getReport(fid: number): StorageReport | undefined {
+    return this.reports.get(fid);
+  }
+
+  getReports(): Record<number, StorageReport> {
+    return Object.fromEntries(this.reports);
+  }
+
+  /**
+   * Share of the daily quota to use for writes to a store (0 to 1)
+   *
+   * Unchecked FIDs are not limited.
+   */
+  quotaScale(fid: number, store: StoreName): number {
+    const usage = this.reports
+      .get(fid)
+      ?.stores.find((entry) => entry.store === store);
+    return usage ? QUOTA_SCALE[usage.level] : 1;
+  }
+
+  private logChanges(
+    previous: StorageReport | null,
+    report: StorageReport
+  ): void {
+    for (const usage of report.stores) {
+      const before = previous?.stores.find(
+        (entry) => entry.store === usage.store
+      );
+      const percent = Math.round(usage.ratio * 100);
+      const summary = `FID ${report.fid} ${usage.store}: ${usage.used}/${usage.limit} (${percent}%)`;
+
+      // The oldest message moving forward means the hub pruned
+      if (
+        before?.earliestTimestamp &&
+        usage.earliestTimestamp &&
+        usage.earliestTimestamp > before.earliestTimestamp
+      ) {
+        const oldest = new Date(
+          farcasterToUnix(usage.earliestTimestamp) * 1000
+        ).toISOString();
+        logger.warn(
+          `${summary} - the hub pruned old ${usage.store}, oldest kept is from ${oldest}. Rent more storage units to keep history.`
+        );
+      }
+
+      if (usage.level === before?.level) continue;
+
+      if (usage.level === "ok") {
+        if (before) logger.info(`${summary} - back under limits`);
+      } else if (usage.level === "warn") {
+        logger.warn(`${summary} - approaching the storage limit`);
+      } else if (usage.level === "throttle") {
+        logger.warn(
+          `${summary} - nearly full, halving daily ${usage.store} quota`
+        );
+      } else {
+        logger.error(
+          `${summary} - full, pausing ${usage.store} writes to avoid pruning. Rent more storage units.`
+        );
+      }
+    }
+  }
+}
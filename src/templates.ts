@@ -0,0 +1,155 @@
+/**
+ * Prompt Templates
+ *
+ * Templates used to generate Farcaster content through the ElizaOS model
+ * pipeline. Placeholders use the `{{key}}` syntax understood by
+ * `composePrompt()`.
+ *
+ * Any template can be overridden from the character file via
+ * `character.templates.<templateName>`.
+ */
+
+/**
+ * Template for replying to a cast that mentions the agent
+ */
+export const farcasterReplyTemplate = `# About {{agentName}}
+{{bio}}
+
+# Writing style
+{{style}}
+
+# The person you are replying to
+@{{authorUsername}} ({{authorDisplayName}})
+Bio: {{authorBio}}
+
+# Conversation so far (oldest first)
+{{thread}}
+
+# Cast to reply to
+@{{authorUsername}}: {{castText}}
+Mentioned in it: {{mentionedUsers}}
+Embeds:
+{{embeds}}
+
+# Replies other people have already posted under it
+{{replies}}
+
+# Task
+Write {{agentName}}'s reply to the cast above as a single Farcaster cast.
+- Stay in character and respond directly to what was said
+- Don't repeat points already made in the existing replies
+- Keep it under 280 characters
+- No hashtags, do not start with the author's @username
+- If the cast does not warrant a reply (spam, hostile, nothing to add), leave <text> empty
+
+Respond using this XML format and nothing else:
+<response>
+  <thought>short reasoning about how to respond</thought>
+  <text>the reply text</text>
+</response>`;
+
+/**
+ * Template for composing an original cast
+ */
+export const farcasterPostTemplate = `# About {{agentName}}
+{{bio}}
+
+# Topics {{agentName}} cares about
+{{topics}}
+
+# Writing style
+{{style}}
+
+# Example posts by {{agentName}}
+{{postExamples}}
+
+# {{agentName}}'s recent casts (do NOT repeat these)
+{{recentPosts}}
+
+{{channelContext}}
+
+# Task
+Write a new, original Farcaster cast in the voice of {{agentName}}.
+- Pick one topic and say something specific and interesting about it
+- It must not restate or paraphrase any of the recent casts above
+- Keep it under 280 characters
+- No hashtags, no emojis unless they fit the style
+
+Respond using this XML format and nothing else:
+<response>
+  <thought>short reasoning about what to post</thought>
+  <text>the cast text</text>
+</response>`;
+
+/**
+ * Template for rating how relevant a cast is to the agent
+ */
+export const farcasterRelevanceTemplate = `# About {{agentName}}
+Topics {{agentName}} cares about: {{topics}}
+
+# Cast by @{{authorUsername}}
+{{castText}}
+
+# Task
+Rate from 0 to 10 how relevant this cast is to {{agentName}}'s topics and
+how worthwhile it would be for {{agentName}} to engage with it.
+0 means spam or off-topic, 10 means squarely on-topic and high quality.
+
+Respond using this XML format and nothing else:
+<response>
+  <score>0-10</score>
+  <reason>one short sentence</reason>
+</response>`;
+
+/**
+ * Template for extracting the text of a cast the user asked the agent to post
+ */
+export const sendCastTemplate = `# Conversation
+{{recentMessages}}
+
+# Task
+{{agentName}} was asked to post something to Farcaster. Based on the conversation
+above, write the exact text of the cast {{agentName}} should publish.
+- If the user dictated the text, use it verbatim
+- Otherwise write it in {{agentName}}'s voice, under 280 characters
+
+Respond using this XML format and nothing else:
+<response>
+  <text>the cast text</text>
+</response>`;
+
+/**
+ * Template for extracting the target cast and optional reply text from a request
+ */
+export const castTargetTemplate = `# Conversation
+{{recentMessages}}
+
+# Task
+Identify the Farcaster cast the user is referring to in their latest message.
+A cast is identified by its author FID (a number) and its hash (0x followed by 40 hex characters).
+If the user wants {{agentName}} to reply to or quote the cast, also write that text in {{agentName}}'s voice, under 280 characters.
+Leave a field empty if it cannot be determined from the conversation.
+
+Respond using this XML format and nothing else:
+<response>
+  <fid>author fid</fid>
+  <hash>0x cast hash</hash>
+  <text>reply or quote text, if replying or quoting</text>
+</response>`;
+
+/**
+ * Template for extracting the user to follow from a request
+ */
+export const followTargetTemplate = `# Conversation
+{{recentMessages}}
+
+# Task
+Identify the Farcaster user the user wants {{agentName}} to follow in their latest message.
+Give either their FID (a number) or their username (without the @).
+Leave a field empty if it cannot be determined from the conversation.
+
+Respond using this XML format and nothing else:
+<response>
+  <fid>user fid</fid>
+  <username>username</username>
+</response>`;
@@ -0,0 +1,33 @@
+/**
+ * Farcaster Timestamp Handling
+ *
+ * IMPORTANT TIMESTAMP FIX:
+ * Farcaster uses its own epoch (Jan 1, 2021), NOT Unix epoch.
+ * Timestamps from the hub are seconds since Farcaster epoch.
+ * Use farcasterToUnix() to convert before comparing with Date.now().
+ */
+
+/**
+ * Farcaster epoch: January 1, 2021 00:00:00 UTC
+ *
+ * All Farcaster timestamps are seconds since this date, NOT Unix epoch.
+ * This is a common source of bugs when calculating cast age.
+ */
+export const FARCASTER_EPOCH = 1609459200;
+
+/**
+ * Convert Farcaster timestamp to Unix timestamp (seconds since 1970)
+ *
+ * CRITICAL: Always use this when comparing Farcaster timestamps with Date.now()
+ * Without this conversion, age calculations will be off by ~51 years!
+ */
+export function farcasterToUnix(farcasterTimestamp: number): number {
+  return farcasterTimestamp + FARCASTER_EPOCH;
+}
+
+/**
+ * Convert Unix timestamp to Farcaster timestamp
+ */
+export function unixToFarcaster(unixTimestamp: number): number {
+  return unixTimestamp - FARCASTER_EPOCH;
+}
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HubUser } from "./hub-api-client";
+import { UserCache } from "./user-cache";
+
+function user(fid: number): HubUser {
+  return {
+    fid,
+    username: `user${fid}`,
+    displayName: `User ${fid}`,
+    pfpUrl: "",
+    bio: "",
+  };
+}
+
+describe("UserCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("LRU", () => {
+    it("evicts the least recently used entry over maxSize", () => {
+      const cache = new UserCache({ maxSize: 2 });
+      cache.set(1, user(1));
+      cache.set(2, user(2));
+      cache.set(3, user(3));
+
+      expect(cache.has(1)).toBe(false);
+      expect(cache.has(2)).toBe(true);
+      expect(cache.has(3)).toBe(true);
+      expect(cache.getStats()).toMatchObject({ size: 2, evictions: 1 });
+    });
+
+    it("counts get() as a use", () => {
+      const cache = new UserCache({ maxSize: 2 });
+      cache.set(1, user(1));
+      cache.set(2, user(2));
+      cache.get(1);
+      cache.set(3, user(3));
+
+      expect(cache.has(1)).toBe(true);
+      expect(cache.has(2)).toBe(false);
+    });
+
+    it("doesn't count has() as a use", () => {
+      const cache = new UserCache({ maxSize: 2 });
+      cache.set(1, user(1));
+      cache.set(2, user(2));
+      cache.has(1);
+      cache.set(3, user(3));
+
+      expect(cache.has(1)).toBe(false);
+    });
+
+    it("refreshes an entry that is set again", () => {
+      const cache = new UserCache({ maxSize: 2 });
+      cache.set(1, user(1));
+      cache.set(2, user(2));
+      cache.set(1, user(1));
+      cache.set(3, user(3));
+
+      expect(cache.has(1)).toBe(true);
+      expect(cache.has(2)).toBe(false);
+    });
+  });
+
+  describe("TTL", () => {
+    it("expires profiles after ttl", () => {
+      const cache = new UserCache({ ttl: 1000 });
+      cache.set(1, user(1));
+
+      vi.advanceTimersByTime(999);
+      expect(cache.get(1)).toEqual(user(1));
+
+      vi.advanceTimersByTime(1);
+      expect(cache.get(1)).toBeUndefined();
+      expect(cache.getStats().size).toBe(0);
+    });
+
+    it("expires missing profiles after the shorter negativeTtl", () => {
+      const cache = new UserCache({ ttl: 1000, negativeTtl: 100 });
+      cache.set(1, null);
+
+      expect(cache.get(1)).toBeNull();
+
+      vi.advanceTimersByTime(100);
+      expect(cache.get(1)).toBeUndefined();
+    });
+  });
+
+  describe("stats", () => {
+    it("counts hits, negative hits and misses of get()", () => {
+      const cache = new UserCache();
+      cache.set(1, user(1));
+      cache.set(2, null);
+
+      cache.get(1);
+      cache.get(2);
+      cache.get(3);
+      cache.has(3);
+
+      expect(cache.getStats()).toMatchObject({
+        hits: 1,
+        negativeHits: 1,
+        misses: 1,
+        hitRate: 2 / 3,
+      });
+    });
+
+    it("adds misses reported by prefetching", () => {
+      const cache = new UserCache();
+      cache.recordMiss(3);
+      cache.set(1, user(1));
+      cache.get(1);
+
+      expect(cache.getStats()).toMatchObject({
+        hits: 1,
+        misses: 3,
+        hitRate: 1 / 4,
+      });
+    });
+
+    it("reports a hit rate of 0 before any lookup", () => {
+      expect(new UserCache().getStats().hitRate).toBe(0);
+    });
+  });
+});
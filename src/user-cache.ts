@@ -0,0 +1,147 @@
+/**
+ * User Profile Cache
+ *
+ * LRU cache of hub user profiles with a time-to-live, so username and pfp
+ * changes are picked up without clearCache(). FIDs the hub has no profile
+ * for are cached too (as null, with a shorter TTL), so casts from unknown
+ * or spam FIDs don't cost a request each time they show up.
+ */
+
+import { HubUser } from "./hub-api-client";
+
+export interface UserCacheOptions {
+  /** Max profiles kept; least recently used are evicted (default 5000) */
+  maxSize?: number;
+  /** How long a profile is trusted in ms (default 1 hour) */
+  ttl?: number;
+  /** How long "no profile" is trusted in ms (default 10 minutes) */
+  negativeTtl?: number;
+}
+
+/**
+ * Counters cover get() lookups and the misses prefetching reports through
+ * recordMiss(); has() checks aren't counted
+ */
+export interface UserCacheStats {
+  size: number;
+  maxSize: number;
+  /** Lookups answered with a profile */
+  hits: number;
+  /** Lookups answered with "no profile" */
+  negativeHits: number;
+  /** Lookups that needed a hub request (absent or expired) */
+  misses: number;
+  /** Entries dropped to stay under maxSize */
+  evictions: number;
+  /** Share of lookups answered from the cache (0 to 1) */
+  hitRate: number;
+}
+
+interface Entry {
+  user: HubUser | null;
+  /** Unix ms */
+  expiresAt: number;
+}
+
+export class UserCache {
+  readonly maxSize: number;
+  private readonly ttl: number;
+  private readonly negativeTtl: number;
+
+  // Map iteration order is insertion order: oldest use first
+  private entries: Map<number, Entry> = new Map();
+  private hits = 0;
+  private negativeHits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: UserCacheOptions = {}) {
+    this.maxSize = Math.max(1, options.maxSize ?? 5000);
+    this.ttl = options.ttl ?? 60 * 60 * 1000;
+    this.negativeTtl = options.negativeTtl ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Cached profile, null if the FID is known to have none, undefined on a
+   * miss
+   */
+  get(fid: number): HubUser | null | undefined {
+    const entry = this.lookup(fid);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(fid);
+    this.entries.set(fid, entry);
+
+    if (entry.user) {
+      this.hits++;
+    } else {
+      this.negativeHits++;
+    }
+    return entry.user;
+  }
+
+  /**
+   * Whether a fresh entry exists, without touching order or stats
+   */
+  has(fid: number): boolean {
+    return !!this.lookup(fid);
+  }
+
+  /**
+   * Count misses found without get(), e.g. FIDs prefetching had to load
+   */
+  recordMiss(count = 1): void {
+    this.misses += count;
+  }
+
+  /**
+   * Cache a profile, or null for a FID with no profile
+   */
+  set(fid: number, user: HubUser | null): void {
+    this.entries.delete(fid);
+    this.entries.set(fid, {
+      user,
+      expiresAt: Date.now() + (user ? this.ttl : this.negativeTtl),
+    });
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as number;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  delete(fid: number): void {
+    this.entries.delete(fid);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): UserCacheStats {
+    const lookups = this.hits + this.negativeHits + this.misses;
+    return {
+      size: this.entries.size,
+      maxSize: this.maxSize,
+      hits: this.hits,
+      negativeHits: this.negativeHits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups ? (this.hits + this.negativeHits) / lookups : 0,
+    };
+  }
+
+  private lookup(fid: number): Entry | undefined {
+    const entry = this.entries.get(fid);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(fid);
+      return undefined;
+    }
+    return entry;
+  }
+}